@@ -0,0 +1,115 @@
+/**
+ * Confidence scoring of impacts and risk-ranked selection
+ */
+
+import { ChangedFile, ChangeKind, ImpactReason, ImpactResult } from '../types';
+
+/**
+ * Score of each kind of change before adjusting for its size and import distance
+ */
+const BASE_SCORES: Record<ChangeKind, number> = {
+    test: 1,
+    scope: 0.8,
+    fixture: 0.75,
+    helper: 0.7,
+    coverage: 0.6,
+    rule: 0.4,
+};
+
+/**
+ * Formatting or comment changes almost never change what a test does
+ */
+const COSMETIC_SCORE = 0.1;
+
+/**
+ * Each module between a helper and the spec makes it less likely that the change reaches the test
+ */
+const IMPORT_DISTANCE_DECAY = 0.85;
+
+/**
+ * Changes of this many lines or more get the full score; a one-line change gets 85% of it
+ */
+const FULL_SIZE_LINES = 20;
+
+/**
+ * Score how likely an impact changes the test's outcome, from 0 to 1.
+ * Added and removed tests always score 1: they run (or stop running) whatever changed.
+ */
+export function scoreImpact(impact: ImpactResult): number {
+    if (impact.impactType === 'added' || impact.impactType === 'removed') {
+        return 1;
+    }
+    if (impact.cosmetic) {
+        return COSMETIC_SCORE;
+    }
+
+    let score = BASE_SCORES[impact.changeKind ?? 'test'];
+
+    if (impact.importChain) {
+        score *= IMPORT_DISTANCE_DECAY ** Math.max(0, impact.importChain.length - 2);
+    }
+    if (impact.changedLines !== undefined) {
+        score *= 0.85 + 0.15 * Math.min(1, impact.changedLines / FULL_SIZE_LINES);
+    }
+
+    return Math.round(score * 100) / 100;
+}
+
+/**
+ * Sort impacts by confidence, highest first (ties keep their order), then apply the thresholds
+ */
+export function rankImpacts(impacts: ImpactResult[], minConfidence = 0, top?: number): ImpactResult[] {
+    const ranked = impacts
+        .filter(impact => (impact.confidence ?? 1) >= minConfidence)
+        .sort((a, b) => (b.confidence ?? 1) - (a.confidence ?? 1));
+
+    return top === undefined ? ranked : ranked.slice(0, top);
+}
+
+/**
+ * Sort the reasons of one impact, strongest first; equal scores keep the closer change (test before helper) first
+ */
+export function rankReasons(reasons: ImpactReason[]): ImpactReason[] {
+    return [...reasons].sort((a, b) =>
+        (b.confidence ?? 1) - (a.confidence ?? 1) || BASE_SCORES[b.changeKind] - BASE_SCORES[a.changeKind]
+    );
+}
+
+/**
+ * Number of added and deleted lines, optionally only those within a test's range in each version
+ */
+export function countChangedLines(
+    changedFile: ChangedFile,
+    newRange?: [number, number],
+    oldRange?: [number, number]
+): number {
+    const { added, deleted } = getChangedText(changedFile, newRange, oldRange);
+    return added.length + deleted.length;
+}
+
+function getChangedText(
+    changedFile: ChangedFile,
+    newRange?: [number, number],
+    oldRange?: [number, number]
+): { added: string[]; deleted: string[] } {
+    const added: string[] = [];
+    const deleted: string[] = [];
+    const within = (line: number, range?: [number, number]) => !range || (line >= range[0] && line <= range[1]);
+
+    for (const hunk of changedFile.hunks) {
+        let oldLine = hunk.oldStart;
+        let newLine = hunk.newStart;
+
+        for (const line of hunk.lines) {
+            if (line.startsWith('-')) {
+                if (within(oldLine, oldRange)) deleted.push(line.slice(1));
+                oldLine++;
+            } else if (line.startsWith('+')) {
+                if (within(newLine, newRange)) added.push(line.slice(1));
+                newLine++;
+            }
+        }
+    }
+
+    return { added, deleted };
+}
@@ -0,0 +1,235 @@
+/**
+ * Import of per-test coverage recorded by a previous run (V8 coverage from `page.coverage` or an
+ * Istanbul coverage object) into a coverage map
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import { GitOperations } from '../git/operations';
+import { CoverageError } from '../errors';
+import { CoverageMap, LineRanges, TestCoverage } from '../types';
+import { COVERAGE_MAP_VERSION, mergeLineRanges, toLineRanges } from './coverageMap';
+
+/**
+ * One recorded test: `testFile` and `titlePath` as Playwright's `testInfo.file` and `testInfo.titlePath`
+ * (a leading file name in the title path is dropped), `coverage` as V8 script coverage or Istanbul data
+ */
+interface CoverageRecord {
+    testFile: string;
+    titlePath: string[];
+    coverage: V8ScriptCoverage[] | Record<string, IstanbulFileCoverage>;
+}
+
+interface V8ScriptCoverage {
+    url: string;
+    source?: string;
+    functions: { ranges: { startOffset: number; endOffset: number; count: number }[] }[];
+}
+
+interface IstanbulFileCoverage {
+    path?: string;
+    statementMap: Record<string, { start: { line: number }; end: { line: number } }>;
+    s: Record<string, number>;
+}
+
+/**
+ * Read coverage records from files and directories (every `.json` file below them) and map them
+ * onto the files of the repository at `commit`, the revision the run was made at
+ */
+export async function buildCoverageMap(repoPath: string, inputs: string[], commit: string = 'HEAD'): Promise<CoverageMap> {
+    const gitOps = new GitOperations(repoPath);
+    const commitSha = await gitOps.resolveCommit(commit);
+    const repoFiles = await gitOps.listFilesAtRevision(commitSha);
+    const tests = new Map<string, TestCoverage>();
+
+    for (const file of inputs.flatMap(input => findJsonFiles(path.resolve(input)))) {
+        for (const record of readRecords(file)) {
+            const filePath = toRepositoryPath(repoPath, record.testFile);
+            if (filePath === '..' || filePath.startsWith('../') || path.isAbsolute(filePath)) {
+                throw new CoverageError(`Invalid coverage record in ${file}: test file ${record.testFile} is outside the repository`, file);
+            }
+            const [first, ...rest] = record.titlePath;
+            const titlePath = rest.length > 0 && filePath.endsWith(first.split(path.sep).join('/')) ? rest : record.titlePath;
+            const covered = Array.isArray(record.coverage)
+                ? await readV8Coverage(record.coverage, repoPath, repoFiles, gitOps)
+                : readIstanbulCoverage(record.coverage, repoPath, repoFiles);
+
+            const key = `${filePath}\0${titlePath.join('\0')}`;
+            const test = tests.get(key) ?? { filePath, titlePath, files: {} };
+            for (const [coveredFile, ranges] of covered) {
+                test.files[coveredFile] = test.files[coveredFile]
+                    ? mergeLineRanges(test.files[coveredFile], ranges)
+                    : ranges;
+            }
+            tests.set(key, test);
+        }
+    }
+
+    return {
+        version: COVERAGE_MAP_VERSION,
+        commit: commitSha,
+        createdAt: new Date().toISOString(),
+        tests: [...tests.values()],
+    };
+}
+
+/**
+ * The input file, or the .json files under a directory, skipping hidden directories and node_modules
+ */
+function findJsonFiles(input: string): string[] {
+    if (!fs.existsSync(input)) {
+        throw new CoverageError(`Coverage input not found: ${input}`, input);
+    }
+    if (!fs.statSync(input).isDirectory()) {
+        return [input];
+    }
+
+    return fs.readdirSync(input, { withFileTypes: true }).flatMap(entry => {
+        const entryPath = path.join(input, entry.name);
+        if (entry.isDirectory()) {
+            // .git (with the analysis cache), other tool directories and dependencies hold no coverage records
+            return entry.name.startsWith('.') || entry.name === 'node_modules' ? [] : findJsonFiles(entryPath);
+        }
+        return entry.name.endsWith('.json') ? [entryPath] : [];
+    });
+}
+
+/**
+ * A file holds one record or an array of them
+ */
+function readRecords(file: string): CoverageRecord[] {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (error) {
+        throw new CoverageError(`Failed to read coverage file ${file}: ${error}`, file, { cause: error });
+    }
+
+    const records = Array.isArray(parsed) ? parsed : [parsed];
+    for (const record of records) {
+        if (
+            !record || typeof record !== 'object' || typeof record.testFile !== 'string' ||
+            !Array.isArray(record.titlePath) || !record.coverage || typeof record.coverage !== 'object'
+        ) {
+            throw new CoverageError(`Invalid coverage record in ${file}: expected { testFile, titlePath, coverage }`, file);
+        }
+    }
+
+    return records;
+}
+
+/**
+ * Lines executed per script. Ranges are nested and the innermost one holds the count,
+ * so they are applied outermost first; a line counts when any of its code ran.
+ */
+async function readV8Coverage(
+    scripts: V8ScriptCoverage[],
+    repoPath: string,
+    repoFiles: Map<string, string>,
+    gitOps: GitOperations
+): Promise<Map<string, LineRanges>> {
+    const covered = new Map<string, LineRanges>();
+
+    for (const script of scripts) {
+        const filePath = resolveScriptUrl(script.url, repoPath, repoFiles);
+        if (!filePath) {
+            continue;
+        }
+
+        const source = script.source ?? await gitOps.readBlob(repoFiles.get(filePath)!);
+        const executed = new Uint8Array(source.length);
+        const ranges = script.functions
+            .flatMap(fn => fn.ranges)
+            .sort((a, b) => a.startOffset - b.startOffset || b.endOffset - a.endOffset);
+        for (const range of ranges) {
+            executed.fill(range.count > 0 ? 1 : 0, range.startOffset, range.endOffset);
+        }
+
+        const lines: number[] = [];
+        let line = 1;
+        for (let offset = 0; offset < source.length; offset++) {
+            if (source[offset] === '\n') {
+                line++;
+            } else if (executed[offset] && source[offset].trim()) {
+                lines.push(line);
+            }
+        }
+
+        if (lines.length > 0) {
+            covered.set(filePath, mergeLineRanges(covered.get(filePath) ?? [], toLineRanges(lines)));
+        }
+    }
+
+    return covered;
+}
+
+/**
+ * Lines of the statements that ran at least once
+ */
+function readIstanbulCoverage(
+    files: Record<string, IstanbulFileCoverage>,
+    repoPath: string,
+    repoFiles: Map<string, string>
+): Map<string, LineRanges> {
+    const covered = new Map<string, LineRanges>();
+
+    for (const [key, fileCoverage] of Object.entries(files)) {
+        const filePath = toRepositoryPath(repoPath, fileCoverage.path ?? key);
+        if (!repoFiles.has(filePath)) {
+            continue;
+        }
+
+        const lines: number[] = [];
+        for (const [id, count] of Object.entries(fileCoverage.s ?? {})) {
+            const statement = fileCoverage.statementMap?.[id];
+            if (count > 0 && statement) {
+                for (let line = statement.start.line; line <= statement.end.line; line++) {
+                    lines.push(line);
+                }
+            }
+        }
+
+        if (lines.length > 0) {
+            covered.set(filePath, toLineRanges(lines));
+        }
+    }
+
+    return covered;
+}
+
+/**
+ * Map a script URL onto a repository file: `file://` URLs by path, served URLs by their path,
+ * either as is or as the unique repository file ending with it (`/assets/app.js` → `public/assets/app.js`)
+ */
+function resolveScriptUrl(url: string, repoPath: string, repoFiles: Map<string, string>): string | null {
+    let pathname: string;
+    try {
+        const parsed = new URL(url);
+        if (parsed.protocol === 'file:') {
+            const filePath = toRepositoryPath(repoPath, decodeURIComponent(parsed.pathname));
+            return repoFiles.has(filePath) ? filePath : null;
+        }
+        if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+            return null;
+        }
+        pathname = decodeURIComponent(parsed.pathname).replace(/^\/+/, '');
+    } catch {
+        return null;
+    }
+
+    if (!pathname || repoFiles.has(pathname)) {
+        return pathname || null;
+    }
+
+    const matches = [...repoFiles.keys()].filter(file => file.endsWith('/' + pathname));
+    return matches.length === 1 ? matches[0] : null;
+}
+
+/**
+ * Normalized repository-relative path with forward slashes; absolute paths are made relative to the
+ * repository, so a path outside it starts with `../` (or stays absolute on another drive)
+ */
+function toRepositoryPath(repoPath: string, filePath: string): string {
+    const relative = path.isAbsolute(filePath) ? path.relative(repoPath, filePath) : filePath;
+    return path.posix.normalize(relative.split(path.sep).join('/'));
+}
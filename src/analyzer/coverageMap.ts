@@ -0,0 +1,113 @@
+/**
+ * Stored per-test coverage map: reading, writing and looking up the tests that executed changed lines
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import { AnalysisCache } from '../cache/analysisCache';
+import { CoverageError } from '../errors';
+import { CoverageMap, Hunk, LineRanges, TestCoverage } from '../types';
+
+/**
+ * Bump when the shape or meaning of stored maps changes
+ */
+export const COVERAGE_MAP_VERSION = 1;
+
+export const DEFAULT_COVERAGE_INCLUDE = ['src/**'];
+
+export const DEFAULT_COVERAGE_MAX_AGE = 50;
+
+/**
+ * Where the map is stored when no path is configured: next to the cache, inside the git directory
+ */
+export function defaultCoverageMapPath(repoPath: string): string | null {
+    const cacheDir = AnalysisCache.defaultDirectory(repoPath);
+    return cacheDir ? path.join(cacheDir, 'coverage.json') : null;
+}
+
+/**
+ * Read a stored map; null if the file does not exist
+ */
+export function readCoverageMap(mapPath: string): CoverageMap | null {
+    if (!fs.existsSync(mapPath)) {
+        return null;
+    }
+
+    let map: CoverageMap;
+    try {
+        map = JSON.parse(fs.readFileSync(mapPath, 'utf-8'));
+    } catch (error) {
+        throw new CoverageError(`Failed to read coverage map ${mapPath}: ${error}`, mapPath, { cause: error });
+    }
+
+    if (map?.version !== COVERAGE_MAP_VERSION || !Array.isArray(map.tests)) {
+        throw new CoverageError(
+            `Unsupported coverage map ${mapPath}; import the coverage again to rebuild it`,
+            mapPath
+        );
+    }
+
+    return map;
+}
+
+export function writeCoverageMap(mapPath: string, map: CoverageMap): void {
+    fs.mkdirSync(path.dirname(mapPath), { recursive: true });
+    fs.writeFileSync(mapPath, JSON.stringify(map));
+}
+
+/**
+ * Tests that executed a file. With `changed` ranges, only those that executed one of the changed lines.
+ */
+export function findCoveringTests(map: CoverageMap, filePath: string, changed: LineRanges | null): TestCoverage[] {
+    return map.tests.filter(test => {
+        const covered = test.files[filePath];
+        if (!covered) {
+            return false;
+        }
+
+        return changed === null || changed.some(([start, end]) =>
+            covered.some(([coveredStart, coveredEnd]) => start <= coveredEnd && coveredStart <= end)
+        );
+    });
+}
+
+/**
+ * Old-side lines touched by a diff, which is what recorded line numbers refer to.
+ * A pure addition touches the lines around the insertion point.
+ */
+export function getChangedLineRanges(hunks: Hunk[]): LineRanges {
+    return hunks.map(hunk => hunk.oldLines > 0
+        ? [hunk.oldStart, hunk.oldStart + hunk.oldLines - 1]
+        : [hunk.oldStart, hunk.oldStart + 1]);
+}
+
+/**
+ * Collapse line numbers into sorted ranges
+ */
+export function toLineRanges(lines: Iterable<number>): LineRanges {
+    const ranges: LineRanges = [];
+
+    for (const line of [...new Set(lines)].sort((a, b) => a - b)) {
+        const last = ranges[ranges.length - 1];
+        if (last && line === last[1] + 1) {
+            last[1] = line;
+        } else {
+            ranges.push([line, line]);
+        }
+    }
+
+    return ranges;
+}
+
+/**
+ * Merge two range lists of the same file (e.g. the same test recorded in two projects)
+ */
+export function mergeLineRanges(a: LineRanges, b: LineRanges): LineRanges {
+    const lines: number[] = [];
+    for (const [start, end] of [...a, ...b]) {
+        for (let line = start; line <= end; line++) {
+            lines.push(line);
+        }
+    }
+    return toLineRanges(lines);
+}
@@ -0,0 +1,75 @@
+/**
+ * Aggregation of per-commit impacts into a per-test timeline and a helper churn ranking
+ */
+
+import { HelperChurn, HistoryCommit, HistoryReport, ImpactResult, TestHistory } from '../types';
+
+/**
+ * Build the history report from the impacts of each commit (same order as `commits`, oldest first).
+ * Renamed and moved tests continue the history recorded under their previous title and path.
+ */
+export function buildHistoryReport(repository: string, commits: HistoryCommit[], impactsByCommit: ImpactResult[][]): HistoryReport {
+    const tests = new Map<string, TestHistory>();
+    const helpers = new Map<string, { commits: Set<string>; impacts: number; tests: Set<TestHistory> }>();
+
+    commits.forEach((commit, index) => {
+        for (const impact of impactsByCommit[index]) {
+            const titlePath = impact.titlePath ?? [impact.testName];
+            const key = testKey(impact.filePath, titlePath, impact.ordinal);
+            const previousKey = impact.impactType === 'renamed'
+                ? testKey(impact.previousFilePath ?? impact.filePath, impact.previousTitlePath ?? titlePath, impact.ordinal)
+                : key;
+
+            const history = tests.get(previousKey) ?? { filePath: impact.filePath, titlePath, events: [] };
+            tests.delete(previousKey);
+            history.filePath = impact.filePath;
+            history.titlePath = titlePath;
+            tests.set(key, history);
+
+            history.events.push({
+                commit: commit.sha,
+                impactType: impact.impactType,
+                ...(impact.isIndirect && { isIndirect: true }),
+                ...(impact.helperFile && { helperFile: impact.helperFile }),
+                ...(impact.rule && { rule: impact.rule }),
+                ...(impact.fromCoverage && { fromCoverage: true }),
+            });
+
+            // Every helper behind the impact counts, also next to a direct change; rule impacts come from
+            // config and data files, not helpers
+            const helperFiles = new Set(impact.reasons
+                ? impact.reasons
+                    .filter(reason => reason.changeKind === 'helper' || reason.changeKind === 'coverage')
+                    .map(reason => reason.file)
+                : impact.isIndirect && impact.helperFile && !impact.rule ? [impact.helperFile] : []);
+            for (const helperFile of helperFiles) {
+                const churn = helpers.get(helperFile) ?? { commits: new Set(), impacts: 0, tests: new Set() };
+                churn.commits.add(commit.sha);
+                churn.impacts++;
+                churn.tests.add(history);
+                helpers.set(helperFile, churn);
+            }
+        }
+    });
+
+    const helperChurn: HelperChurn[] = [...helpers].map(([helperFile, churn]) => ({
+        helperFile,
+        commits: churn.commits.size,
+        impacts: churn.impacts,
+        tests: churn.tests.size,
+    }));
+
+    return {
+        repository,
+        commits,
+        tests: [...tests.values()].sort((a, b) => b.events.length - a.events.length),
+        helpers: helperChurn.sort((a, b) => b.impacts - a.impacts || b.commits - a.commits),
+    };
+}
+
+/**
+ * Tests sharing a title path in one file are told apart by ordinal
+ */
+function testKey(filePath: string, titlePath: string[], ordinal = 0): string {
+    return `${filePath}::${titlePath.join('\u0000')}#${ordinal}`;
+}
@@ -2,154 +2,444 @@
  * Main impact analyzer - orchestrates the analysis
  */
 
-import { GitOperations } from '../git/operations';
-import { TestParser } from '../parser/testParser';
+import { GitOperations, INDEX_REF, WORKING_TREE_REF } from '../git/operations';
+import { FileSource, createFileSource } from '../git/fileSource';
+import { TestParser, flattenTests } from '../parser/testParser';
 import { ImportTracker } from '../parser/importTracker';
-import { ImpactResult, ChangedFile } from '../types';
+import { ModuleLoader } from '../parser/constantEvaluator';
+import { isCosmeticChange } from '../parser/semanticDiff';
+import { AnalysisCache } from '../cache/analysisCache';
+import {
+    ChangedSymbols,
+    SymbolAnalyzer,
+    emptyChangedSymbols,
+    emptySymbolSeeds,
+    hasChangedSymbols,
+    mergeChangedSymbols,
+} from '../parser/symbolAnalyzer';
+import { TestFileMatcher, isSourceFile, matchesGlob } from '../config/testFileMatcher';
+import { createFrameworkAdapters, detectFrameworks } from '../frameworks';
+import { DATA_FILE_RULE, DEFAULT_RULES, findMatchingRule, ruleName } from '../config/impactRules';
+import { pairRenamedTests } from './renameDetection';
+import { filterByTags } from './tagFilter';
+import { countChangedLines, rankImpacts, rankReasons, scoreImpact } from './confidence';
+import {
+    DEFAULT_COVERAGE_INCLUDE,
+    DEFAULT_COVERAGE_MAX_AGE,
+    defaultCoverageMapPath,
+    findCoveringTests,
+    getChangedLineRanges,
+    readCoverageMap,
+} from './coverageMap';
+import {
+    ImpactResult,
+    ImpactType,
+    ChangedFile,
+    RevisionRange,
+    AnalysisTarget,
+    TestInfo,
+    TestSuite,
+    AnalyzerOptions,
+    ImpactRule,
+    CoverageMap,
+    ChangeKind,
+    ImpactReason,
+} from '../types';
 import * as path from 'path';
 
+/**
+ * Changes outside the spec file
+ */
+const INDIRECT_CHANGE_KINDS: ChangeKind[] = ['helper', 'coverage', 'rule'];
+
 export class ImpactAnalyzer {
     private gitOps: GitOperations;
-    private testParser: TestParser;
-    private importTracker: ImportTracker;
+    // Test syntax and test file rules of the head of the change being analyzed, from its package.json and playwright.config
+    private testParser!: TestParser;
+    private testFiles!: TestFileMatcher;
+    private testParsers = new Map<string, TestParser>(); // by frameworks, so parsers are shared between revisions
+    private fileSources = new Map<string, FileSource>();
+    private importTrackers = new Map<string, ImportTracker>();
+    private symbolAnalyzer: SymbolAnalyzer;
+    private cache: AnalysisCache;
+    private rules: ImpactRule[];
     private repoPath: string;
+    private options: AnalyzerOptions;
+    private coverageMap?: CoverageMap | null; // read on first use
+    private warnings: string[] = [];
+    private introducedOnly: ImpactResult[] = [];
 
-    constructor(repoPath: string) {
+    constructor(repoPath: string, options: AnalyzerOptions = {}) {
         this.repoPath = repoPath;
+        this.options = options;
+        this.rules = [
+            ...(options.rules ?? []),
+            ...(options.runAllOn?.length ? [{ name: 'runAllOn', files: options.runAllOn, impact: 'all' as const }] : []),
+            ...DEFAULT_RULES,
+        ];
         this.gitOps = new GitOperations(repoPath);
-        this.testParser = new TestParser();
-        this.importTracker = new ImportTracker(repoPath);
+        // Without the on-disk cache, results are still shared within this run (e.g. across the commits of a range)
+        this.cache = new AnalysisCache(
+            options.cache === false ? null : AnalysisCache.defaultDirectory(repoPath),
+            { testFunctions: options.testFunctions }
+        );
+        this.symbolAnalyzer = new SymbolAnalyzer();
+    }
+
+    /**
+     * Analyze whatever the target describes (commit, range, staged or working-tree changes),
+     * keep the impacts matching the tag and confidence filters, highest confidence first,
+     * then persist the cache for the next run
+     */
+    async analyze(target: AnalysisTarget): Promise<ImpactResult[]> {
+        this.warnings = [];
+        this.introducedOnly = [];
+
+        try {
+            const impacts = await this.analyzeTarget(target);
+            this.introducedOnly = impacts.filter(impact => impact.introducesOnly);
+            await this.checkCoverageAge(target);
+            return rankImpacts(
+                filterByTags(impacts, this.options.includeTags, this.options.excludeTags),
+                this.options.minConfidence,
+                this.options.top
+            );
+        } finally {
+            this.cache.save();
+        }
+    }
+
+    /**
+     * Conditions found by the last `analyze()` that may make its impacts incomplete
+     */
+    getWarnings(): string[] {
+        return [...this.warnings];
+    }
+
+    /**
+     * Tests the last `analyze()` found focused by the change, whether or not the filters kept them
+     */
+    getIntroducedOnly(): ImpactResult[] {
+        return [...this.introducedOnly];
+    }
+
+    private analyzeTarget(target: AnalysisTarget): Promise<ImpactResult[]> {
+        switch (target.kind) {
+            case 'commit':
+                return this.analyzeCommit(target.commit, target.mainline);
+            case 'range':
+                return this.analyzeRange(target.range);
+            case 'staged':
+                return this.analyzeStaged();
+            case 'working-tree':
+                return this.analyzeWorkingTree();
+        }
+    }
+
+    /**
+     * Analyze commits one by one (oldest first), each against its first parent, and return their impacts in order.
+     * One analyzer replays them all: adjacent commits share the import tracker of the revision between them,
+     * and parse results carry over by blob SHA, so each step only reads what the commit changed.
+     */
+    async analyzeCommits(commits: string[]): Promise<ImpactResult[][]> {
+        try {
+            const results: ImpactResult[][] = [];
+            for (const commit of commits) {
+                const impacts = await this.analyzeCommit(commit);
+                const selected = filterByTags(impacts, this.options.includeTags, this.options.excludeTags);
+                results.push(rankImpacts(selected, this.options.minConfidence));
+            }
+            return results;
+        } finally {
+            this.cache.save();
+        }
+    }
+
+    /**
+     * Analyze a single commit against its parent.
+     * For merge commits, `mainline` selects which parent (1-based) is treated as the base.
+     */
+    async analyzeCommit(commitSha: string, mainline: number = 1): Promise<ImpactResult[]> {
+        const baseRef = await this.gitOps.getCommitBase(commitSha, mainline);
+        return this.analyzeRevisions(baseRef, commitSha);
+    }
+
+    /**
+     * Analyze every commit in a range and merge the per-test results.
+     * The range base is replaced by the merge-base when `useMergeBase` is set (pull request semantics).
+     */
+    async analyzeRange(range: RevisionRange): Promise<ImpactResult[]> {
+        const baseRef = range.useMergeBase
+            ? await this.gitOps.getMergeBase(range.base, range.head)
+            : range.base;
+
+        const commits = await this.gitOps.getCommitsInRange(baseRef, range.head);
+
+        let impacts: ImpactResult[] = [];
+        for (const commit of commits) {
+            const commitImpacts = await this.analyzeCommit(commit);
+            impacts = this.mergeImpacts(impacts, commitImpacts);
+        }
+
+        return impacts;
+    }
+
+    /**
+     * Analyze staged changes (index vs. HEAD)
+     */
+    async analyzeStaged(): Promise<ImpactResult[]> {
+        const headSha = await this.gitOps.resolveHead();
+        return this.analyzeRevisions(headSha, INDEX_REF);
+    }
+
+    /**
+     * Analyze all uncommitted changes, staged or not, including untracked files (working tree vs. HEAD)
+     */
+    async analyzeWorkingTree(): Promise<ImpactResult[]> {
+        const headSha = await this.gitOps.resolveHead();
+        return this.analyzeRevisions(headSha, WORKING_TREE_REF);
     }
 
     /**
-     * Main analysis method
+     * Analyze the changes between two revisions
      */
-    async analyzeCommit(commitSha: string): Promise<ImpactResult[]> {
+    async analyzeRevisions(baseRef: string, headRef: string): Promise<ImpactResult[]> {
         const impacts: ImpactResult[] = [];
 
+        // In a range, a commit's head is the next commit's base, so that tracker stays
+        for (const revision of [...this.importTrackers.keys(), ...this.fileSources.keys()]) {
+            if (revision !== baseRef && revision !== headRef) {
+                this.importTrackers.delete(revision);
+                this.fileSources.delete(revision);
+            }
+        }
+
+        await this.loadRevisionSetup(headRef);
+
         // Get all changed files
-        const changedFiles = await this.gitOps.getChangedFiles(commitSha);
+        const changedFiles = (await this.gitOps.getChangedFiles(baseRef, headRef))
+            .filter(f => !this.testFiles.isIgnored(f.path));
 
-        // Separate test files from helper files
+        // Separate test files, files handled by impact rules (config, data, snapshots) and helper files
         const testFiles = changedFiles.filter(f => this.isTestFile(f.path));
-        const helperFiles = changedFiles.filter(f => !this.isTestFile(f.path) && f.path.endsWith('.ts'));
+        const ruleMatches: { changedFile: ChangedFile; rule: ImpactRule }[] = [];
+        const helperFiles: ChangedFile[] = [];
+
+        for (const changedFile of changedFiles.filter(f => !this.isTestFile(f.path))) {
+            const rule = findMatchingRule(changedFile.path, this.rules) ??
+                (isSourceFile(changedFile.path) ? undefined : DATA_FILE_RULE);
+
+            if (rule) {
+                ruleMatches.push({ changedFile, rule });
+            } else {
+                helperFiles.push(changedFile);
+            }
+        }
 
         // Analyze direct impacts (test files changed)
         for (const testFile of testFiles) {
-            const directImpacts = await this.analyzeTestFile(testFile, commitSha);
+            const directImpacts = await this.analyzeTestFile(testFile, baseRef, headRef);
             impacts.push(...directImpacts);
         }
 
         // Analyze indirect impacts (helper files changed)
         for (const helperFile of helperFiles) {
-            const indirectImpacts = await this.analyzeHelperFile(helperFile);
+            const indirectImpacts = await this.analyzeHelperFile(helperFile, baseRef, headRef);
             impacts.push(...indirectImpacts);
         }
 
-        return impacts;
+        // Analyze rule-based impacts
+        for (const { changedFile, rule } of ruleMatches) {
+            const ruleImpacts = await this.analyzeRuleMatch(changedFile, rule, baseRef, headRef);
+            impacts.push(...ruleImpacts);
+        }
+
+        // Analyze impacts recorded in coverage (application code the tests executed), unless already found statically
+        const reported = new Set(impacts.map(impact => this.indirectKey(impact)));
+        for (const changedFile of changedFiles.filter(f => !this.isTestFile(f.path))) {
+            const coverageImpacts = await this.analyzeCoverage(changedFile, baseRef, headRef);
+            impacts.push(...coverageImpacts.filter(impact => !reported.has(this.indirectKey(impact))));
+        }
+
+        return this.combineImpacts(impacts
+            .filter(impact => !(this.options.ignoreCosmetic && impact.cosmetic))
+            .map(impact => ({ ...impact, confidence: scoreImpact(impact) })));
     }
 
     /**
      * Analyze a changed test file
      */
-    private async analyzeTestFile(changedFile: ChangedFile, commitSha: string): Promise<ImpactResult[]> {
+    private async analyzeTestFile(
+        changedFile: ChangedFile,
+        baseRef: string,
+        headRef: string
+    ): Promise<ImpactResult[]> {
         const impacts: ImpactResult[] = [];
         const filePath = path.join(this.repoPath, changedFile.path);
 
         if (changedFile.changeType === 'added') {
             // New file - all tests are added
-            const currentContent = await this.gitOps.getFileAtCommit(commitSha, changedFile.path);
+            const currentContent = await this.gitOps.getFileAtCommit(headRef, changedFile.path);
             if (currentContent) {
-                const tests = await this.testParser.parseTestFile(filePath, currentContent);
+                const tests = await this.testParser.parseTestFile(filePath, currentContent, this.getModuleLoader(headRef));
+                const ordinals = this.getOrdinals(tests);
                 for (const test of tests) {
-                    impacts.push({
-                        testName: test.name,
-                        filePath: changedFile.path,
-                        impactType: 'added',
-                    });
+                    const impact = {
+                        ...this.createImpact(test, changedFile.path, 'added', ordinals),
+                        ...this.describeChange('test', changedFile, { current: test }),
+                    };
+                    impacts.push(this.flagIntroducedOnly(impact, test));
                 }
             }
         } else if (changedFile.changeType === 'deleted') {
             // File deleted - all tests are removed
-            const beforeContent = await this.gitOps.getFileBeforeCommit(commitSha, changedFile.path);
+            const beforeContent = await this.gitOps.getFileAtCommit(baseRef, changedFile.path);
             if (beforeContent) {
-                const tests = await this.testParser.parseTestFile(filePath, beforeContent);
+                const tests = await this.testParser.parseTestFile(filePath, beforeContent, this.getModuleLoader(baseRef));
+                const ordinals = this.getOrdinals(tests);
                 for (const test of tests) {
                     impacts.push({
-                        testName: test.name,
-                        filePath: changedFile.path,
-                        impactType: 'removed',
+                        ...this.createImpact(test, changedFile.path, 'removed', ordinals),
+                        ...this.describeChange('test', changedFile, { before: test }),
                     });
                 }
             }
         } else {
-            // Modified file - need to check what changed
-            const beforeContent = await this.gitOps.getFileBeforeCommit(commitSha, changedFile.path);
-            const currentContent = await this.gitOps.getFileAtCommit(commitSha, changedFile.path);
+            // Modified or moved file - need to check what changed
+            const oldPath = changedFile.oldPath ?? changedFile.path;
+            const isMoved = oldPath !== changedFile.path;
+            const beforeContent = await this.gitOps.getFileAtCommit(baseRef, oldPath);
+            const currentContent = await this.gitOps.getFileAtCommit(headRef, changedFile.path);
 
             if (beforeContent && currentContent) {
-                const beforeTests = await this.testParser.parseTestFile(filePath, beforeContent);
-                const currentTests = await this.testParser.parseTestFile(filePath, currentContent);
+                const beforeTree = await this.testParser.parseTestTree(
+                    path.join(this.repoPath, oldPath),
+                    beforeContent,
+                    this.getModuleLoader(baseRef)
+                );
+                const currentTree = await this.testParser.parseTestTree(filePath, currentContent, this.getModuleLoader(headRef));
+                const beforeOrdinals = this.getOrdinals(flattenTests(beforeTree));
+                const currentOrdinals = this.getOrdinals(flattenTests(currentTree));
+                const beforeByKey = this.keyTests(beforeOrdinals);
+                const currentByKey = this.keyTests(currentOrdinals);
+
+                const currentKeys = new Map([...currentByKey].map(([key, test]) => [test, key]));
+
+                // Every cause is reported; a test found by several checks is combined into one impact later
+                const report = (test: TestInfo, impact: ImpactResult, before = beforeByKey.get(currentKeys.get(test)!)) => {
+                    impacts.push(this.flagIntroducedOnly(impact, test, before));
+                };
+
+                const removedTests = [...beforeByKey].filter(([key]) => !currentByKey.has(key)).map(([, test]) => test);
+                const addedTests = [...currentByKey].filter(([key]) => !beforeByKey.has(key)).map(([, test]) => test);
+
+                // Tests that disappeared under one title and appeared under another with a similar body were renamed
+                const renames = pairRenamedTests(removedTests, beforeContent, addedTests, currentContent);
+                for (const { before, after } of renames) {
+                    report(after, {
+                        ...this.createRenamedImpact(after, changedFile.path, currentOrdinals, before, oldPath),
+                        ...this.describeChange('test', changedFile, { current: after, before }),
+                    }, before);
+                }
+                const renamedBefore = new Set(renames.map(rename => rename.before));
 
                 // Find added tests
-                for (const test of currentTests) {
-                    const existedBefore = beforeTests.some(bt => bt.name === test.name);
-                    if (!existedBefore) {
-                        // Check if the test is in the added lines
-                        const isInAddedLines = this.testParser.hasOverlap(
-                            changedFile.addedLines,
-                            test.startLine,
-                            test.endLine
-                        );
+                for (const test of addedTests) {
+                    report(test, {
+                        ...this.createImpact(test, changedFile.path, 'added', currentOrdinals),
+                        ...this.describeChange('test', changedFile, { current: test }),
+                    });
+                }
 
-                        if (isInAddedLines || !existedBefore) {
-                            impacts.push({
-                                testName: test.name,
-                                filePath: changedFile.path,
-                                impactType: 'added',
-                            });
-                        }
+                // Find removed tests
+                for (const test of removedTests.filter(t => !renamedBefore.has(t))) {
+                    impacts.push({
+                        ...this.createImpact(test, oldPath, 'removed', beforeOrdinals),
+                        ...this.describeChange('test', changedFile, { before: test }),
+                    });
+                }
+
+                // Find modified tests: added lines are attributed to the new version of a test,
+                // deleted lines to the old one, so pure deletions inside a test count too
+                const touched = new Set<string>();
+                for (const [key, test] of currentByKey) {
+                    if (this.testParser.hasOverlap(changedFile.addedLines, test.startLine, test.endLine)) {
+                        touched.add(key);
+                    }
+                }
+                for (const [key, test] of beforeByKey) {
+                    if (this.testParser.hasOverlap(changedFile.deletedLines, test.startLine, test.endLine)) {
+                        touched.add(key);
                     }
                 }
 
-                // Find removed tests
-                for (const test of beforeTests) {
-                    const existsNow = currentTests.some(ct => ct.name === test.name);
-                    if (!existsNow) {
-                        impacts.push({
-                            testName: test.name,
-                            filePath: changedFile.path,
-                            impactType: 'removed',
+                for (const [key, test] of currentByKey) {
+                    const beforeTest = beforeByKey.get(key);
+                    const versions = { current: test, before: beforeTest };
+
+                    if (beforeTest && isMoved) {
+                        // Every test of a moved spec keeps its identity under the new path
+                        report(test, {
+                            ...this.createRenamedImpact(test, changedFile.path, currentOrdinals, beforeTest, oldPath),
+                            ...this.describeChange('test', changedFile, versions),
+                        });
+                    } else if (beforeTest && touched.has(key)) {
+                        const cosmetic = this.isCosmeticTestChange(
+                            beforeContent, beforeTest, currentContent, test, changedFile.path
+                        );
+                        report(test, {
+                            ...this.createImpact(test, changedFile.path, 'modified', currentOrdinals),
+                            ...this.describeChange('test', changedFile, versions, cosmetic),
                         });
                     }
                 }
 
-                // Find modified tests
-                for (const test of currentTests) {
-                    const beforeTest = beforeTests.find(bt => bt.name === test.name);
+                // Hooks, describe-level code and fixtures are compared with the tests left out
+                const testRanges = (tree: TestSuite): [number, number][] =>
+                    flattenTests(tree).map(test => [test.startLine, test.endLine]);
+                const scopeCosmetic = isCosmeticChange(
+                    beforeContent,
+                    currentContent,
+                    changedFile.path,
+                    testRanges(beforeTree),
+                    testRanges(currentTree)
+                );
 
-                    if (beforeTest) {
-                        // Test existed before - check if it was modified
-                        const hasChangesInTest = this.testParser.hasOverlap(
-                            changedFile.addedLines,
-                            test.startLine,
-                            test.endLine
-                        );
+                // Changes to hooks and describe-level code impact every test in their scope, in either version
+                const beforeKeys = new Map([...beforeByKey].map(([key, test]) => [test, key]));
+                const scopeTests = [
+                    ...this.selectTestsInChangedScopes(currentTree, changedFile.addedLines),
+                    ...this.selectTestsInChangedScopes(beforeTree, changedFile.deletedLines)
+                        .map(test => currentByKey.get(beforeKeys.get(test)!))
+                        .filter((test): test is TestInfo => test !== undefined),
+                ];
+                for (const test of scopeTests) {
+                    report(test, {
+                        ...this.createImpact(test, changedFile.path, 'modified', currentOrdinals),
+                        ...this.describeChange('scope', changedFile, undefined, scopeCosmetic),
+                    });
+                }
+
+                // Fixtures defined in the spec itself impact the tests that request them
+                const changedFixtures = mergeChangedSymbols(
+                    this.symbolAnalyzer.getChangedSymbols(beforeContent, changedFile.deletedLines, changedFile.path),
+                    this.symbolAnalyzer.getChangedSymbols(currentContent, changedFile.addedLines, changedFile.path)
+                ).fixtures;
+
+                // One fixture at a time, so each impact names the fixture that reaches the test
+                for (const fixture of [...changedFixtures].sort()) {
+                    const referenceLines = this.symbolAnalyzer.findReferenceLines(
+                        currentContent,
+                        { ...emptySymbolSeeds(), fixtures: new Set([fixture]) },
+                        changedFile.path
+                    ) ?? [];
 
-                        if (hasChangesInTest) {
-                            // Only add if not already marked as added
-                            const alreadyAdded = impacts.some(
-                                i => i.testName === test.name && i.impactType === 'added'
-                            );
-
-                            if (!alreadyAdded) {
-                                impacts.push({
-                                    testName: test.name,
-                                    filePath: changedFile.path,
-                                    impactType: 'modified',
-                                });
-                            }
-                        }
+                    for (const test of this.selectTestsByLines(currentTree, referenceLines)) {
+                        report(test, {
+                            ...this.createImpact(test, changedFile.path, 'modified', currentOrdinals),
+                            ...this.describeChange('fixture', changedFile, undefined, scopeCosmetic),
+                            fixture,
+                        });
                     }
                 }
             }
@@ -159,29 +449,259 @@ export class ImpactAnalyzer {
     }
 
     /**
-     * Analyze impacts from a changed helper file
+     * Analyze impacts from a changed helper file.
+     * Only tests that reference the changed symbols (directly, through other modules or through
+     * local helpers and hooks) are reported.
      */
-    private async analyzeHelperFile(changedFile: ChangedFile): Promise<ImpactResult[]> {
+    private async analyzeHelperFile(
+        changedFile: ChangedFile,
+        baseRef: string,
+        headRef: string
+    ): Promise<ImpactResult[]> {
         const impacts: ImpactResult[] = [];
+        const helperPath = path.join(this.repoPath, changedFile.path);
+        const importTracker = this.getImportTracker(headRef);
 
-        // Find all test files that import this helper
-        const importingTestFiles = await this.importTracker.findTestFilesImporting(
-            path.join(this.repoPath, changedFile.path)
-        );
+        const changedSymbols = await this.getChangedHelperSymbols(changedFile, baseRef, headRef);
+        if (!hasChangedSymbols(changedSymbols)) {
+            return impacts;
+        }
+        const cosmetic = await this.isCosmeticFileChange(changedFile, baseRef, headRef);
+
+        // Find all test files that depend on this helper, directly or transitively
+        const dependentTestFiles = await importTracker.findDependentTestFiles(helperPath);
+        const seedsByFile = await importTracker.findSymbolDependents(helperPath, changedSymbols);
+
+        for (const { testFile, importChain } of dependentTestFiles) {
+            const seeds = seedsByFile.get(testFile);
+            const content = await importTracker.readFile(testFile);
+            if (!seeds || content === null) {
+                continue;
+            }
+
+            const tree = await this.testParser.parseTestTree(testFile, content, this.getModuleLoader(headRef));
+            const referenceLines = this.symbolAnalyzer.findReferenceLines(content, seeds, testFile);
+            const impactedTests = referenceLines === null
+                ? flattenTests(tree)
+                : this.selectTestsByLines(tree, referenceLines);
+
+            // Get relative paths from repo root
+            const relativePath = path.relative(this.repoPath, testFile);
+            const relativeChain = importChain.map(file => path.relative(this.repoPath, file));
+
+            for (const { test, impactType, ordinals } of await this.selectRows(testFile, content, tree, impactedTests, baseRef)) {
+                impacts.push({
+                    ...this.createImpact(test, relativePath, impactType, ordinals),
+                    ...this.describeChange('helper', changedFile, undefined, cosmetic),
+                    isIndirect: true,
+                    helperFile: changedFile.path,
+                    importChain: relativeChain,
+                });
+            }
+        }
+
+        return impacts;
+    }
+
+    /**
+     * Find the tests whose recorded coverage includes lines the change touched in a file matching
+     * `coverage.include`. Recorded line numbers refer to an earlier revision, so they are compared
+     * with the old side of the diff.
+     */
+    private async analyzeCoverage(changedFile: ChangedFile, baseRef: string, headRef: string): Promise<ImpactResult[]> {
+        const coverageMap = this.getCoverageMap();
+        if (!coverageMap || !matchesGlob(changedFile.path, this.options.coverage?.include ?? DEFAULT_COVERAGE_INCLUDE)) {
+            return [];
+        }
+
+        const changedLines = changedFile.changeType === 'modified' || changedFile.changeType === 'renamed'
+            ? getChangedLineRanges(changedFile.hunks)
+            : null;
+        const covering = findCoveringTests(coverageMap, changedFile.oldPath ?? changedFile.path, changedLines);
+
+        const titlesByFile = new Map<string, Set<string>>();
+        for (const { filePath, titlePath } of covering) {
+            const titles = titlesByFile.get(filePath) ?? new Set();
+            titles.add(titlePath.join('\u0000'));
+            titlesByFile.set(filePath, titles);
+        }
+
+        const impacts: ImpactResult[] = [];
+        const importTracker = this.getImportTracker(headRef);
+        const cosmetic = titlesByFile.size > 0 && await this.isCosmeticFileChange(changedFile, baseRef, headRef);
+
+        // Tests removed or renamed since the coverage was recorded are no longer found by title
+        for (const [filePath, titles] of titlesByFile) {
+            const testFile = path.join(this.repoPath, filePath);
+            const content = await importTracker.readFile(testFile);
+            if (content === null) {
+                continue;
+            }
+
+            const tree = await this.testParser.parseTestTree(testFile, content, this.getModuleLoader(headRef));
+            const ordinals = this.getOrdinals(flattenTests(tree));
+            for (const test of flattenTests(tree).filter(test => titles.has(test.titlePath.join('\u0000')))) {
+                impacts.push({
+                    ...this.createImpact(test, filePath, 'modified', ordinals),
+                    ...this.describeChange('coverage', changedFile, undefined, cosmetic),
+                    isIndirect: true,
+                    helperFile: changedFile.path,
+                    fromCoverage: true,
+                });
+            }
+        }
+
+        return impacts;
+    }
+
+    /**
+     * The stored coverage map, or null when none was imported
+     */
+    private getCoverageMap(): CoverageMap | null {
+        if (this.coverageMap === undefined) {
+            const mapPath = this.getCoverageMapPath();
+            this.coverageMap = mapPath ? readCoverageMap(mapPath) : null;
+        }
+
+        return this.coverageMap;
+    }
+
+    private getCoverageMapPath(): string | null {
+        const configured = this.options.coverage?.map;
+        return configured ? path.resolve(this.repoPath, configured) : defaultCoverageMapPath(this.repoPath);
+    }
+
+    /**
+     * Warn when the coverage map was recorded too many commits before the analyzed revision,
+     * since coverage of code added since then is missing from it
+     */
+    private async checkCoverageAge(target: AnalysisTarget): Promise<void> {
+        const coverageMap = this.getCoverageMap();
+        if (!coverageMap) {
+            if (this.options.coverage?.map) {
+                this.warnings.push(`Coverage map not found: ${this.getCoverageMapPath()}`);
+            }
+            return;
+        }
+
+        const head = target.kind === 'commit' ? target.commit : target.kind === 'range' ? target.range.head : 'HEAD';
+        const maxAge = this.options.coverage?.maxAge ?? DEFAULT_COVERAGE_MAX_AGE;
+
+        try {
+            const age = await this.gitOps.countCommits(coverageMap.commit, head);
+            if (age > maxAge) {
+                this.warnings.push(
+                    `Coverage map is ${age} commits older than ${head} (limit ${maxAge}); ` +
+                    'impacts found through coverage may be incomplete until coverage is imported again'
+                );
+            }
+        } catch {
+            this.warnings.push(`Coverage map was recorded at ${coverageMap.commit}, which is not in this repository`);
+        }
+    }
+
+    /**
+     * Import tracker over the files of a revision: the head of the change being analyzed, or its base
+     * when reading the previous version of a spec. Only those of the current change are kept.
+     */
+    private getImportTracker(revision: string): ImportTracker {
+        let importTracker = this.importTrackers.get(revision);
+
+        if (!importTracker) {
+            importTracker = new ImportTracker(this.repoPath, this.testFiles, this.options, this.cache, this.getFileSource(revision));
+            this.importTrackers.set(revision, importTracker);
+        }
+
+        return importTracker;
+    }
+
+    /**
+     * Files of a revision, shared by its setup and its import tracker
+     */
+    private getFileSource(revision: string): FileSource {
+        let source = this.fileSources.get(revision);
+
+        if (!source) {
+            source = createFileSource(this.gitOps, this.repoPath, revision);
+            this.fileSources.set(revision, source);
+        }
+
+        return source;
+    }
+
+    /**
+     * Read the frameworks (from package.json, unless configured) and the test file rules (from playwright.config)
+     * of a revision rather than the working tree, so old commits and bare repositories use their own
+     */
+    private async loadRevisionSetup(revision: string): Promise<void> {
+        const source = this.getFileSource(revision);
+        const frameworks = this.options.frameworks ?? detectFrameworks(await source.readFile('package.json'));
+        const adapters = createFrameworkAdapters(frameworks, this.options.testFunctions);
+        const key = frameworks.join(',');
+
+        if (!this.testParsers.has(key)) {
+            this.testParsers.set(key, new TestParser(adapters, this.cache));
+        }
+        this.testParser = this.testParsers.get(key)!;
+        this.testFiles = await TestFileMatcher.fromSource(source, this.repoPath, this.options, adapters);
+    }
+
+    /**
+     * Module loader reading a spec's imports at a revision, for titles and loops built from imported constants
+     */
+    private getModuleLoader(revision: string): ModuleLoader {
+        const importTracker = this.getImportTracker(revision);
+        return (specifier, fromFile) => importTracker.loadModule(specifier, fromFile);
+    }
+
+    /**
+     * Apply the impact rule that matched a changed file
+     */
+    private async analyzeRuleMatch(
+        changedFile: ChangedFile,
+        rule: ImpactRule,
+        baseRef: string,
+        headRef: string
+    ): Promise<ImpactResult[]> {
+        const selections: { testFile: string; lines: number[] | null }[] = [];
+        const importTracker = this.getImportTracker(headRef);
 
-        // Get all tests from those files
-        for (const testFilePath of importingTestFiles) {
-            const tests = await this.testParser.parseTestFile(testFilePath);
+        if (rule.impact === 'all') {
+            for (const testFile of await importTracker.findAllTestFiles()) {
+                selections.push({ testFile, lines: null });
+            }
+        } else if (rule.impact === 'directory') {
+            const scope = this.getRuleScope(changedFile.path);
+            for (const testFile of await importTracker.findAllTestFiles()) {
+                if (testFile === scope || testFile.startsWith(scope + path.sep)) {
+                    selections.push({ testFile, lines: null });
+                }
+            }
+        } else {
+            const references = await importTracker.findFileReferences(
+                path.join(this.repoPath, changedFile.path)
+            );
+            selections.push(...references);
+        }
 
-            // Get relative path from repo root
-            const relativePath = path.relative(this.repoPath, testFilePath);
+        const impacts: ImpactResult[] = [];
+        for (const { testFile, lines } of selections) {
+            const content = await importTracker.readFile(testFile);
+            if (content === null) {
+                continue;
+            }
+
+            const tree = await this.testParser.parseTestTree(testFile, content, this.getModuleLoader(headRef));
+            const impactedTests = lines === null ? flattenTests(tree) : this.selectTestsByLines(tree, lines);
+            const relativePath = path.relative(this.repoPath, testFile);
 
-            for (const test of tests) {
+            for (const { test, impactType, ordinals } of await this.selectRows(testFile, content, tree, impactedTests, baseRef)) {
                 impacts.push({
-                    testName: test.name,
-                    filePath: relativePath,
-                    impactType: 'modified',
+                    ...this.createImpact(test, relativePath, impactType, ordinals),
+                    ...this.describeChange('rule', changedFile),
                     isIndirect: true,
+                    helperFile: changedFile.path,
+                    rule: ruleName(rule),
                 });
             }
         }
@@ -189,10 +709,499 @@ export class ImpactAnalyzer {
         return impacts;
     }
 
+    /**
+     * Absolute path whose tests a 'directory' rule impacts: the changed file's directory,
+     * or the owning spec for Playwright snapshot folders (`login.spec.ts-snapshots/`)
+     */
+    private getRuleScope(filePath: string): string {
+        const dir = path.join(this.repoPath, path.dirname(filePath));
+        const snapshotMatch = dir.match(/^(.*)-snapshots$/);
+
+        return snapshotMatch && this.isTestFile(snapshotMatch[1]) ? snapshotMatch[1] : dir;
+    }
+
+    /**
+     * Tests of an unchanged spec impacted by a change elsewhere, as modified, plus the rows of data-driven tests
+     * the change added or dropped (a loop or table over imported data now expands differently):
+     * tests found when expanding the spec at only one of the two revisions
+     */
+    private async selectRows(
+        testFile: string,
+        content: string,
+        tree: TestSuite,
+        impactedTests: TestInfo[],
+        baseRef: string
+    ): Promise<{ test: TestInfo; impactType: ImpactType; ordinals: Map<TestInfo, number> }[]> {
+        const currentOrdinals = this.getOrdinals(flattenTests(tree));
+        const rows = impactedTests.map(test => ({ test, impactType: 'modified' as ImpactType, ordinals: currentOrdinals }));
+
+        // A spec whose own text changed is compared as a test file
+        if (await this.getImportTracker(baseRef).readFile(testFile) !== content) {
+            return rows;
+        }
+
+        const beforeTree = await this.testParser.parseTestTree(testFile, content, this.getModuleLoader(baseRef));
+        const beforeOrdinals = this.getOrdinals(flattenTests(beforeTree));
+        const beforeByKey = this.keyTests(beforeOrdinals);
+        const currentByKey = this.keyTests(currentOrdinals);
+
+        for (const [key, test] of currentByKey) {
+            if (!beforeByKey.has(key)) {
+                rows.push({ test, impactType: 'added', ordinals: currentOrdinals });
+            }
+        }
+        for (const [key, test] of beforeByKey) {
+            if (!currentByKey.has(key)) {
+                rows.push({ test, impactType: 'removed', ordinals: beforeOrdinals });
+            }
+        }
+
+        return rows;
+    }
+
+    /**
+     * Find the symbols of a helper touched by a change: added lines are mapped onto the new version,
+     * deleted lines onto the old one (under its previous path, for moved helpers).
+     * Added or deleted helpers count as changed as a whole.
+     */
+    private async getChangedHelperSymbols(
+        changedFile: ChangedFile,
+        baseRef: string,
+        headRef: string
+    ): Promise<ChangedSymbols> {
+        if (changedFile.changeType === 'added' || changedFile.changeType === 'deleted') {
+            return { ...emptyChangedSymbols(), all: true };
+        }
+
+        const beforeContent = await this.gitOps.getFileAtCommit(baseRef, changedFile.oldPath ?? changedFile.path);
+        const currentContent = await this.gitOps.getFileAtCommit(headRef, changedFile.path);
+
+        if (beforeContent === null || currentContent === null) {
+            return { ...emptyChangedSymbols(), all: true };
+        }
+
+        return mergeChangedSymbols(
+            this.symbolAnalyzer.getChangedSymbols(beforeContent, changedFile.deletedLines, changedFile.path),
+            this.symbolAnalyzer.getChangedSymbols(currentContent, changedFile.addedLines, changedFile.path)
+        );
+    }
+
+    /**
+     * Select the tests affected by references on the given lines.
+     * A reference inside a test affects that test; one in a loop defining tests (its header, say) the tests of the loop;
+     * one elsewhere in a describe block (hooks, describe-level code) every test in the block; anything else the whole file.
+     */
+    private selectTestsByLines(tree: TestSuite, lines: number[]): TestInfo[] {
+        const selected = new Set<TestInfo>();
+
+        for (const line of lines) {
+            this.getTestsInScopeOf(tree, line).forEach(test => selected.add(test));
+        }
+
+        return flattenTests(tree).filter(test => selected.has(test));
+    }
+
+    /**
+     * Select the tests whose scope changed: every test in a describe block whose own code changed
+     * (title, hooks, configure/use calls, shared declarations), or in the file when a top-level hook changed.
+     * Code of a loop defining tests only concerns the loop's tests. Changes inside tests are handled per test.
+     */
+    private selectTestsInChangedScopes(tree: TestSuite, lines: number[]): TestInfo[] {
+        const selected = new Set<TestInfo>();
+        const inHook = (line: number) =>
+            tree.hooks.some(hook => this.testParser.isLineInRange(line, hook.startLine, hook.endLine));
+
+        for (const line of lines) {
+            const scope = this.findInnermostSuite(tree, line);
+            const inTest = scope.tests.some(test => this.testParser.isLineInRange(line, test.startLine, test.endLine));
+            const loopTests = inTest ? null : this.getLoopTestsAt(scope, line);
+
+            if (loopTests) {
+                loopTests.forEach(test => selected.add(test));
+            } else if (!inTest && (scope !== tree || inHook(line))) {
+                flattenTests(scope).forEach(test => selected.add(test));
+            }
+        }
+
+        return flattenTests(tree).filter(test => selected.has(test));
+    }
+
+    /**
+     * The test containing a line (every row of a parameterized test), the tests of the innermost loop
+     * containing it, or every test of the innermost describe block containing it
+     */
+    private getTestsInScopeOf(tree: TestSuite, line: number): TestInfo[] {
+        const scope = this.findInnermostSuite(tree, line);
+        const tests = scope.tests.filter(t => this.testParser.isLineInRange(line, t.startLine, t.endLine));
+
+        return tests.length > 0 ? tests : this.getLoopTestsAt(scope, line) ?? flattenTests(scope);
+    }
+
+    /**
+     * Tests defined by the innermost loop of a describe block containing a line (every row it expands into,
+     * in nested describes too), or null when the line is in no such loop
+     */
+    private getLoopTestsAt(scope: TestSuite, line: number): TestInfo[] | null {
+        const loop = scope.loops
+            .filter(l => this.testParser.isLineInRange(line, l.startLine, l.endLine))
+            .sort((a, b) => (a.endLine - a.startLine) - (b.endLine - b.startLine))[0];
+
+        return loop
+            ? flattenTests(scope).filter(test => test.startLine >= loop.startLine && test.endLine <= loop.endLine)
+            : null;
+    }
+
+    private findInnermostSuite(suite: TestSuite, line: number): TestSuite {
+        const child = suite.suites.find(s => this.testParser.isLineInRange(line, s.startLine, s.endLine));
+        return child ? this.findInnermostSuite(child, line) : suite;
+    }
+
+    /**
+     * Position of each test among the tests of its file with the same full title path,
+     * so tests sharing a title (in different describe blocks, or even the same one) are told apart
+     */
+    private getOrdinals(tests: TestInfo[]): Map<TestInfo, number> {
+        const ordinals = new Map<TestInfo, number>();
+        const occurrences = new Map<string, number>();
+
+        for (const test of tests) {
+            const title = test.titlePath.join('\u0000');
+            const ordinal = occurrences.get(title) ?? 0;
+
+            occurrences.set(title, ordinal + 1);
+            ordinals.set(test, ordinal);
+        }
+
+        return ordinals;
+    }
+
+    /**
+     * Key tests by full title path plus ordinal
+     */
+    private keyTests(ordinals: Map<TestInfo, number>): Map<string, TestInfo> {
+        return new Map([...ordinals].map(([test, ordinal]) => [`${test.titlePath.join('\u0000')}#${ordinal}`, test]));
+    }
+
+    /**
+     * Identifies the test an impact refers to by file, title path and ordinal
+     */
+    private testKey(impact: ImpactResult): string {
+        return `${impact.filePath}::${(impact.titlePath ?? [impact.testName]).join('\u0000')}#${impact.ordinal ?? 0}`;
+    }
+
+    /**
+     * Entry of an impact when combining: a removed test never shares one with a test that still exists
+     */
+    private entryKey(impact: ImpactResult): string {
+        return impact.impactType === 'removed' ? `${this.testKey(impact)}::removed` : this.testKey(impact);
+    }
+
+    /**
+     * Identifies an indirect impact by test and changed file
+     */
+    private indirectKey(impact: ImpactResult): string {
+        return `${this.testKey(impact)}::${impact.helperFile ?? ''}`;
+    }
+
+    /**
+     * Build an impact result for a parsed test
+     */
+    private createImpact(
+        test: TestInfo,
+        filePath: string,
+        impactType: ImpactType,
+        ordinals: Map<TestInfo, number>
+    ): ImpactResult {
+        const ordinal = ordinals.get(test) ?? 0;
+
+        return {
+            testName: test.name,
+            titlePath: test.titlePath,
+            filePath,
+            ...(ordinal > 0 && { ordinal }),
+            impactType,
+            startLine: test.startLine,
+            endLine: test.endLine,
+            ...this.describeTest(test),
+        };
+    }
+
+    /**
+     * Kind, size and classification of the change behind an impact. With `versions`, only the lines of the test
+     * in each version count (a test missing from one version has no lines there); otherwise the whole file's.
+     */
+    private describeChange(
+        changeKind: ChangeKind,
+        changedFile: ChangedFile,
+        versions?: { current?: TestInfo; before?: TestInfo },
+        cosmetic = false
+    ): Partial<ImpactResult> {
+        const range = (test?: TestInfo): [number, number] | undefined =>
+            versions ? (test ? [test.startLine, test.endLine] : [0, -1]) : undefined;
+
+        return {
+            changeKind,
+            changedLines: countChangedLines(changedFile, range(versions?.current), range(versions?.before)),
+            ...(cosmetic && { cosmetic: true }),
+        };
+    }
+
+    /**
+     * Whether a test's code differs between two versions of its file only in formatting
+     */
+    private isCosmeticTestChange(
+        beforeContent: string,
+        before: TestInfo,
+        currentContent: string,
+        current: TestInfo,
+        filePath: string
+    ): boolean {
+        const lines = (content: string, test: TestInfo) =>
+            content.split('\n').slice(test.startLine - 1, test.endLine).join('\n');
+
+        return isCosmeticChange(lines(beforeContent, before), lines(currentContent, current), filePath);
+    }
+
+    /**
+     * Whether a modified or moved source file changed only in formatting; other changes
+     * (added or deleted files, data files) always count
+     */
+    private async isCosmeticFileChange(changedFile: ChangedFile, baseRef: string, headRef: string): Promise<boolean> {
+        if (
+            (changedFile.changeType !== 'modified' && changedFile.changeType !== 'renamed') ||
+            !isSourceFile(changedFile.path)
+        ) {
+            return false;
+        }
+
+        const beforeContent = await this.gitOps.getFileAtCommit(baseRef, changedFile.oldPath ?? changedFile.path);
+        const currentContent = await this.gitOps.getFileAtCommit(headRef, changedFile.path);
+
+        return beforeContent !== null && currentContent !== null &&
+            isCosmeticChange(beforeContent, currentContent, changedFile.path);
+    }
+
+    /**
+     * Title confidence, tags, annotations and focus of a test (or of the test an impact refers to); unset fields are left out
+     */
+    private describeTest(test: Pick<ImpactResult, 'dynamicTitle' | 'tags' | 'annotations' | 'only'>): Partial<ImpactResult> {
+        return {
+            ...(test.dynamicTitle && { dynamicTitle: true }),
+            ...(test.tags && { tags: test.tags }),
+            ...(test.annotations && { annotations: test.annotations }),
+            ...(test.only && { only: true }),
+        };
+    }
+
+    /**
+     * Flag an impact whose test is focused now but was not before the change (or did not exist)
+     */
+    private flagIntroducedOnly(impact: ImpactResult, test: TestInfo, before?: TestInfo): ImpactResult {
+        if (test.only && !before?.only) {
+            impact.introducesOnly = true;
+        }
+        return impact;
+    }
+
+    /**
+     * Build a 'renamed' impact, recording the previous title and path where they differ
+     */
+    private createRenamedImpact(
+        test: TestInfo,
+        filePath: string,
+        ordinals: Map<TestInfo, number>,
+        before: TestInfo,
+        oldPath: string
+    ): ImpactResult {
+        const titleChanged = before.titlePath.join('\u0000') !== test.titlePath.join('\u0000');
+
+        return {
+            ...this.createImpact(test, filePath, 'renamed', ordinals),
+            ...(titleChanged && { previousTitlePath: before.titlePath }),
+            ...(oldPath !== filePath && { previousFilePath: oldPath }),
+        };
+    }
+
+    /**
+     * Combine the impacts found for the same test (its own lines, hooks, fixtures, helpers, rules)
+     * into one impact listing every reason. An added or renamed test keeps that type; removed tests
+     * stay apart from the tests that still exist.
+     */
+    private combineImpacts(impacts: ImpactResult[]): ImpactResult[] {
+        const byTest = new Map<string, ImpactResult[]>();
+        for (const impact of impacts) {
+            const key = this.entryKey(impact);
+            byTest.set(key, [...byTest.get(key) ?? [], impact]);
+        }
+
+        return [...byTest.values()].map(group => {
+            const primary = group.find(impact => impact.impactType !== 'modified') ?? group[0];
+            const result: ImpactResult = {
+                testName: primary.testName,
+                titlePath: primary.titlePath,
+                filePath: primary.filePath,
+                ...(primary.ordinal && { ordinal: primary.ordinal }),
+                impactType: primary.impactType,
+                ...(primary.previousTitlePath && { previousTitlePath: primary.previousTitlePath }),
+                ...(primary.previousFilePath && { previousFilePath: primary.previousFilePath }),
+                startLine: primary.startLine,
+                endLine: primary.endLine,
+                ...this.describeTest(primary),
+                ...(group.some(impact => impact.introducesOnly) && { introducesOnly: true }),
+            };
+
+            return this.applyReasons(result, group.map(impact => this.createReason(impact)));
+        });
+    }
+
+    /**
+     * The cause an impact found by one check records
+     */
+    private createReason(impact: ImpactResult): ImpactReason {
+        return {
+            changeKind: impact.changeKind ?? 'test',
+            file: impact.helperFile ?? impact.filePath,
+            ...(impact.fixture && { fixture: impact.fixture }),
+            ...(impact.importChain && { importChain: impact.importChain }),
+            ...(impact.rule && { rule: impact.rule }),
+            ...(impact.fromCoverage && { fromCoverage: true }),
+            ...(impact.changedLines !== undefined && { changedLines: impact.changedLines }),
+            ...(impact.cosmetic && { cosmetic: true }),
+            ...(impact.confidence !== undefined && { confidence: impact.confidence }),
+        };
+    }
+
+    /**
+     * Attach reasons to an impact, keeping the strongest of identical ones, and describe the impact by
+     * the strongest reason. It is indirect only when no reason lies in the spec itself.
+     */
+    private applyReasons(impact: ImpactResult, reasons: ImpactReason[]): ImpactResult {
+        const unique = new Map<string, ImpactReason>();
+        for (const reason of rankReasons(reasons)) {
+            const key = [reason.changeKind, reason.file, reason.fixture, reason.rule, reason.fromCoverage]
+                .concat(reason.importChain ?? [])
+                .join('::');
+            if (!unique.has(key)) {
+                unique.set(key, reason);
+            }
+        }
+
+        const ranked = [...unique.values()];
+        const [strongest] = ranked;
+        const indirect = ranked.every(reason => INDIRECT_CHANGE_KINDS.includes(reason.changeKind));
+
+        return {
+            ...impact,
+            ...(indirect && {
+                isIndirect: true,
+                helperFile: strongest.file,
+                ...(strongest.importChain && { importChain: strongest.importChain }),
+                ...(strongest.rule && { rule: strongest.rule }),
+                ...(strongest.fromCoverage && { fromCoverage: true }),
+            }),
+            ...(strongest.fixture && { fixture: strongest.fixture }),
+            changeKind: strongest.changeKind,
+            ...(strongest.changedLines !== undefined && { changedLines: strongest.changedLines }),
+            ...(strongest.cosmetic && { cosmetic: true }),
+            ...(strongest.confidence !== undefined && { confidence: strongest.confidence }),
+            reasons: ranked,
+        };
+    }
+
+    /**
+     * Merge impacts from a later commit into the accumulated results, one entry per test (removed tests
+     * apart from existing ones, as when combining). The merged impact type reflects the net effect across both commits.
+     */
+    private mergeImpacts(existing: ImpactResult[], incoming: ImpactResult[]): ImpactResult[] {
+        const merged = new Map<string, ImpactResult>();
+        const titleKey = (titlePath: string[] | undefined, testName: string) => (titlePath ?? [testName]).join('\u0000');
+
+        for (const impact of existing) {
+            merged.set(this.entryKey(impact), impact);
+        }
+
+        for (const impact of incoming) {
+            const key = this.testKey(impact);
+
+            // A renamed test continues the entry recorded under its previous title and path. A test added back
+            // continues the entry of the removed one; a test removed now, the entry of the test that existed.
+            const previousKey = impact.impactType === 'renamed'
+                ? this.testKey({
+                    ...impact,
+                    filePath: impact.previousFilePath ?? impact.filePath,
+                    titlePath: impact.previousTitlePath ?? impact.titlePath,
+                })
+                : key;
+            const candidates = impact.impactType === 'added'
+                ? [`${previousKey}::removed`, previousKey]
+                : impact.impactType === 'removed' ? [previousKey, `${previousKey}::removed`] : [previousKey];
+            const entry = candidates.find(candidate => merged.has(candidate));
+
+            if (entry === undefined) {
+                merged.set(this.entryKey(impact), impact);
+                continue;
+            }
+            const previous = merged.get(entry)!;
+            merged.delete(entry);
+
+            let impactType = impact.impactType;
+            if (previous.impactType === 'added' && impact.impactType === 'removed') {
+                // Added and removed again within the range - no net impact
+                continue;
+            } else if (previous.impactType === 'added') {
+                impactType = 'added';
+            } else if (previous.impactType === 'removed' && impact.impactType === 'added') {
+                impactType = 'modified';
+            } else if (impact.impactType === 'removed') {
+                impactType = 'removed';
+            } else if (previous.impactType === 'renamed') {
+                impactType = 'renamed';
+            }
+
+            const result: ImpactResult = {
+                testName: impact.testName,
+                titlePath: impact.titlePath,
+                filePath: impact.filePath,
+                ...(impact.ordinal && { ordinal: impact.ordinal }),
+                impactType,
+                startLine: impact.startLine,
+                endLine: impact.endLine,
+                ...this.describeTest(impact),
+            };
+
+            // Focus added by an earlier commit stays flagged while the test remains focused
+            if (impact.only && (previous.introducesOnly || impact.introducesOnly)) {
+                result.introducesOnly = true;
+            }
+
+            // Renames are reported against the title and path the test had at the start of the range
+            if (impactType === 'renamed') {
+                const originTitlePath = previous.previousTitlePath ?? previous.titlePath ?? [previous.testName];
+                const originFilePath = previous.previousFilePath ?? previous.filePath;
+
+                if (titleKey(originTitlePath, previous.testName) !== titleKey(impact.titlePath, impact.testName)) {
+                    result.previousTitlePath = originTitlePath;
+                }
+                if (originFilePath !== impact.filePath) {
+                    result.previousFilePath = originFilePath;
+                }
+                if (!result.previousTitlePath && !result.previousFilePath) {
+                    // Renamed back within the range
+                    result.impactType = 'modified';
+                }
+            }
+
+            // The reasons of every commit are kept; the strongest change across the range decides the score
+            merged.set(this.entryKey(result), this.applyReasons(result, [...previous.reasons ?? [], ...impact.reasons ?? []]));
+        }
+
+        return [...merged.values()];
+    }
+
     /**
      * Check if a file is a test file
      */
     private isTestFile(filePath: string): boolean {
-        return filePath.endsWith('.spec.ts') || filePath.endsWith('.test.ts');
+        return this.testFiles.isTestFile(filePath);
     }
 }
@@ -0,0 +1,92 @@
+/**
+ * Detection of renamed tests: a removed and an added test with (mostly) the same body
+ */
+
+import { TestInfo } from '../types';
+
+/**
+ * Minimum body similarity for a removed and an added test to count as one renamed test,
+ * matching git's default rename threshold for files
+ */
+export const RENAME_SIMILARITY_THRESHOLD = 0.5;
+
+export interface RenamedTest {
+    before: TestInfo;
+    after: TestInfo;
+    similarity: number;
+}
+
+/**
+ * Pair removed tests with added tests whose bodies are similar enough, best matches first.
+ * Each test takes part in at most one pair.
+ */
+export function pairRenamedTests(
+    removed: TestInfo[],
+    beforeContent: string,
+    added: TestInfo[],
+    currentContent: string
+): RenamedTest[] {
+    const candidates: RenamedTest[] = [];
+
+    for (const before of removed) {
+        const beforeBody = getTestBody(before, beforeContent);
+
+        for (const after of added) {
+            const similarity = bodySimilarity(beforeBody, getTestBody(after, currentContent));
+            if (similarity >= RENAME_SIMILARITY_THRESHOLD) {
+                candidates.push({ before, after, similarity });
+            }
+        }
+    }
+
+    const pairs: RenamedTest[] = [];
+    const paired = new Set<TestInfo>();
+
+    for (const candidate of candidates.sort((a, b) => b.similarity - a.similarity)) {
+        if (!paired.has(candidate.before) && !paired.has(candidate.after)) {
+            pairs.push(candidate);
+            paired.add(candidate.before);
+            paired.add(candidate.after);
+        }
+    }
+
+    return pairs;
+}
+
+/**
+ * Trimmed, non-empty source lines of a test with its title removed
+ */
+function getTestBody(test: TestInfo, content: string): string[] {
+    const source = content.split('\n').slice(test.startLine - 1, test.endLine).join('\n');
+
+    return source
+        .replace(test.name, '')
+        .split('\n')
+        .map(line => line.trim())
+        .filter(Boolean);
+}
+
+/**
+ * Dice coefficient over the lines of both bodies (as multisets)
+ */
+function bodySimilarity(a: string[], b: string[]): number {
+    if (a.length === 0 && b.length === 0) {
+        return 1;
+    }
+
+    const remaining = new Map<string, number>();
+    for (const line of a) {
+        remaining.set(line, (remaining.get(line) ?? 0) + 1);
+    }
+
+    let common = 0;
+    for (const line of b) {
+        const count = remaining.get(line) ?? 0;
+        if (count > 0) {
+            common++;
+            remaining.set(line, count - 1);
+        }
+    }
+
+    return (2 * common) / (a.length + b.length);
+}
@@ -0,0 +1,20 @@
+/**
+ * Selection of impacts by the tags of their tests (`--include-tag`, `--exclude-tag`)
+ */
+
+import { ImpactResult } from '../types';
+
+/**
+ * Keep impacts whose test has one of the `include` tags (when any are given) and none of the `exclude` tags.
+ * Tags match with or without their leading '@'.
+ */
+export function filterByTags(impacts: ImpactResult[], include: string[] = [], exclude: string[] = []): ImpactResult[] {
+    const normalize = (tag: string) => tag.startsWith('@') ? tag : `@${tag}`;
+    const included = new Set(include.map(normalize));
+    const excluded = new Set(exclude.map(normalize));
+
+    return impacts.filter(impact => {
+        const tags = impact.tags ?? [];
+        return (included.size === 0 || tags.some(tag => included.has(tag))) && !tags.some(tag => excluded.has(tag));
+    });
+}
@@ -0,0 +1,195 @@
+/**
+ * Programmatic entry point: resolve what to analyze, load the project config and run the analyzer
+ */
+
+import { ImpactAnalyzer } from './analyzer/impactAnalyzer';
+import { buildHistoryReport } from './analyzer/history';
+import { buildCoverageMap } from './analyzer/coverageImport';
+import { defaultCoverageMapPath, writeCoverageMap } from './analyzer/coverageMap';
+import { GitOperations, parseRangeSpec } from './git/operations';
+import { loadConfig, validateConfig } from './config/configFile';
+import { InvalidOptionError, RepositoryError } from './errors';
+import { AnalysisTarget, AnalyzerOptions, CoverageMap, HistoryReport, ImpactConfig, ImpactReport } from './types';
+import * as path from 'path';
+import * as fs from 'fs';
+
+/**
+ * What to analyze (exactly one of commit, base, range, staged or workingTree) and how.
+ * Analyzer options given here take precedence over the config file.
+ */
+export interface AnalyzeOptions extends AnalyzerOptions {
+    repo: string;
+    commit?: string;
+    base?: string; // diffed against its merge-base with `head`, like a pull request
+    head?: string; // defaults to HEAD
+    range?: string; // `<base>..<head>` or `<base>...<head>`
+    staged?: boolean;
+    workingTree?: boolean;
+    mainline?: number; // parent of a merge commit to diff against (1-based)
+    config?: string | ImpactConfig | false; // config file path, a config object (validated like a file), or false to skip it
+}
+
+/**
+ * Which commits a history scan replays: the first-parent log of `head` (default HEAD) or of a range,
+ * optionally only commits touching `pathspecs`, and at most the `maxCount` most recent ones
+ */
+export interface HistoryOptions extends AnalyzerOptions {
+    repo: string;
+    head?: string;
+    range?: string; // `<base>..<head>`, or `<base>...<head>` for the commits since their merge-base
+    pathspecs?: string[]; // files or directories, as given to `git log -- <path>`
+    maxCount?: number;
+    config?: string | ImpactConfig | false;
+}
+
+/**
+ * Per-test coverage files to import, and where to store the resulting map
+ */
+export interface CoverageImportOptions {
+    repo: string;
+    inputs: string[]; // coverage files, or directories holding them
+    commit?: string; // revision the coverage was recorded at (default: HEAD)
+    map?: string; // default: `coverage.map` from the config, else inside the git directory
+    config?: string | ImpactConfig | false;
+}
+
+/**
+ * Turn the mode options into an analysis target
+ */
+export function resolveTarget(options: AnalyzeOptions): AnalysisTarget {
+    const { commit, base, head = 'HEAD', range, staged, workingTree, mainline = 1 } = options;
+
+    const modes = [commit, base, range, staged, workingTree].filter(Boolean).length;
+    if (modes !== 1) {
+        throw new InvalidOptionError('Specify exactly one of commit, base, range, staged or workingTree');
+    }
+
+    if (!Number.isInteger(mainline) || mainline < 1) {
+        throw new InvalidOptionError(`Invalid mainline value: ${mainline}`);
+    }
+
+    if (range) {
+        return { kind: 'range', range: parseRangeSpec(range) };
+    } else if (base) {
+        return { kind: 'range', range: { base, head, useMergeBase: true } };
+    } else if (staged) {
+        return { kind: 'staged' };
+    } else if (workingTree) {
+        return { kind: 'working-tree' };
+    }
+
+    return { kind: 'commit', commit: commit!, mainline };
+}
+
+/**
+ * Check that a path exists and is a git repository (a checkout or a bare repository); returns the absolute path
+ */
+export function resolveRepository(repo: string): string {
+    const repoPath = path.resolve(repo);
+
+    if (!fs.existsSync(repoPath)) {
+        throw new RepositoryError(`Repository path does not exist: ${repoPath}`, repoPath);
+    }
+
+    const isBare = fs.existsSync(path.join(repoPath, 'HEAD')) && fs.existsSync(path.join(repoPath, 'objects'));
+    if (!isBare && !fs.existsSync(path.join(repoPath, '.git'))) {
+        throw new RepositoryError(`Not a git repository: ${repoPath}`, repoPath);
+    }
+
+    return repoPath;
+}
+
+/**
+ * Analyze a repository and return the impacted tests
+ */
+export async function analyze(options: AnalyzeOptions): Promise<ImpactReport> {
+    const repoPath = resolveRepository(options.repo);
+    const target = resolveTarget(options);
+
+    const { repo, commit, base, head, range, staged, workingTree, mainline, config, ...overrides } = options;
+
+    const analyzer = new ImpactAnalyzer(repoPath, resolveAnalyzerOptions(repoPath, config, overrides));
+    const impacts = await analyzer.analyze(target);
+    const introducedOnly = analyzer.getIntroducedOnly();
+    const warnings = analyzer.getWarnings();
+
+    return {
+        repository: repoPath,
+        target,
+        impacts,
+        ...(introducedOnly.length > 0 && { introducedOnly }),
+        ...(warnings.length > 0 && { warnings }),
+    };
+}
+
+/**
+ * Replay the analysis over a commit log, oldest commit first, and aggregate the impacts per test and per helper
+ */
+export async function analyzeHistory(options: HistoryOptions): Promise<HistoryReport> {
+    const repoPath = resolveRepository(options.repo);
+    const { repo, head = 'HEAD', range, pathspecs, maxCount, config, ...overrides } = options;
+
+    if (maxCount !== undefined && (!Number.isInteger(maxCount) || maxCount < 1)) {
+        throw new InvalidOptionError(`Invalid maxCount value: ${maxCount}`);
+    }
+
+    const gitOps = new GitOperations(repoPath);
+    let revisions = head;
+    if (range) {
+        const spec = parseRangeSpec(range);
+        const base = spec.useMergeBase ? await gitOps.getMergeBase(spec.base, spec.head) : spec.base;
+        revisions = `${base}..${spec.head}`;
+    }
+
+    const commits = await gitOps.getLog(revisions, pathspecs, maxCount);
+
+    const analyzer = new ImpactAnalyzer(repoPath, resolveAnalyzerOptions(repoPath, config, overrides));
+    const impactsByCommit = await analyzer.analyzeCommits(commits.map(commit => commit.sha));
+
+    return buildHistoryReport(repoPath, commits, impactsByCommit);
+}
+
+/**
+ * Import per-test coverage from a previous run and store it as the coverage map later analyses read
+ */
+export async function importCoverage(options: CoverageImportOptions): Promise<{ mapPath: string; coverageMap: CoverageMap }> {
+    const repoPath = resolveRepository(options.repo);
+    const { coverage } = resolveAnalyzerOptions(repoPath, options.config, {});
+
+    const configured = options.map ?? coverage?.map;
+    const mapPath = configured ? path.resolve(repoPath, configured) : defaultCoverageMapPath(repoPath);
+    if (!mapPath) {
+        throw new InvalidOptionError('Cannot locate the git directory to store the coverage map in; pass a map path');
+    }
+
+    const coverageMap = await buildCoverageMap(repoPath, options.inputs, options.commit);
+    writeCoverageMap(mapPath, coverageMap);
+
+    return { mapPath, coverageMap };
+}
+
+/**
+ * Merge the config file with the options given in code, which take precedence (field by field for `coverage`)
+ */
+function resolveAnalyzerOptions(
+    repoPath: string,
+    config: string | ImpactConfig | false | undefined,
+    overrides: AnalyzerOptions
+): AnalyzerOptions {
+    // A config object given in code is checked like a config file
+    const loaded = config === false
+        ? {}
+        : typeof config === 'object'
+            ? validateConfig(config, 'options.config')
+            : loadConfig(repoPath, config).config;
+
+    const definedOverrides = Object.fromEntries(
+        Object.entries(overrides).filter(([, value]) => value !== undefined)
+    ) as AnalyzerOptions;
+
+    return {
+        ...loaded,
+        ...definedOverrides,
+        ...(loaded.coverage && definedOverrides.coverage && { coverage: { ...loaded.coverage, ...definedOverrides.coverage } }),
+    };
+}
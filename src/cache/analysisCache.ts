@@ -0,0 +1,185 @@
+/**
+ * On-disk cache of per-blob analysis results (parsed tests, import specifiers) and the
+ * reverse-dependency graph, so repeated runs only re-parse files whose content changed
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import { TestInfo, TestSuite } from '../types';
+import { VERSION } from '../version';
+
+/**
+ * Bump when the shape or meaning of cached data changes
+ */
+export const CACHE_FORMAT_VERSION = 5;
+
+/**
+ * Entries not used for this many runs are dropped when the cache is saved
+ */
+const MAX_IDLE_RUNS = 20;
+
+interface CachedBlob {
+    tests?: TestSuite;
+    testFrameworks?: string; // frameworks the tests were recognized with, which can differ between revisions
+    imports?: string[];
+    lastRun: number;
+}
+
+interface CachedGraph {
+    fingerprint: string;
+    edges: Record<string, string[]>; // repository-relative file → files importing it
+}
+
+interface CacheData {
+    key: string; // analyzer version, cache format and parse-affecting options
+    run: number;
+    blobs: Record<string, CachedBlob>; // by git blob SHA
+    graph?: CachedGraph;
+}
+
+export class AnalysisCache {
+    private cacheFile: string | null;
+    private data: CacheData;
+    private dirty = false;
+
+    /**
+     * @param cacheDir directory holding the cache file, or null to keep results in memory only
+     * @param options options that change what gets parsed (e.g. test function names); a change invalidates the cache
+     */
+    constructor(cacheDir: string | null, options: unknown = {}) {
+        this.cacheFile = cacheDir ? path.join(cacheDir, 'cache.json') : null;
+
+        const key = `${VERSION}:${CACHE_FORMAT_VERSION}:${JSON.stringify(options)}`;
+        const stored = this.read();
+
+        this.data = stored && stored.key === key
+            ? { ...stored, run: stored.run + 1 }
+            : { key, run: 1, blobs: {} };
+    }
+
+    /**
+     * Cache directory inside the repository's git directory, which is never committed.
+     * Worktrees and submodules have a `.git` file pointing at the real git directory;
+     * a bare repository is its own git directory.
+     */
+    static defaultDirectory(repoPath: string): string | null {
+        const dotGit = path.join(repoPath, '.git');
+
+        try {
+            if (!fs.existsSync(dotGit)) {
+                return fs.existsSync(path.join(repoPath, 'objects')) ? path.join(repoPath, 'test-impact-analyzer') : null;
+            }
+
+            if (fs.statSync(dotGit).isDirectory()) {
+                return path.join(dotGit, 'test-impact-analyzer');
+            }
+
+            const match = fs.readFileSync(dotGit, 'utf-8').match(/^gitdir:\s*(.+)$/m);
+            return match ? path.join(path.resolve(repoPath, match[1].trim()), 'test-impact-analyzer') : null;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Parsed test tree of a blob, with test file paths set to where the blob is now
+     */
+    getTests(sha: string, filePath: string, frameworks: string): TestSuite | undefined {
+        const blob = this.touch(sha);
+        return blob?.tests && blob.testFrameworks === frameworks ? this.withFilePath(blob.tests, filePath) : undefined;
+    }
+
+    setTests(sha: string, tests: TestSuite, frameworks: string): void {
+        this.update(sha, { tests, testFrameworks: frameworks });
+    }
+
+    getImports(sha: string): string[] | undefined {
+        return this.touch(sha)?.imports;
+    }
+
+    setImports(sha: string, imports: string[]): void {
+        this.update(sha, { imports });
+    }
+
+    /**
+     * The reverse-dependency graph, if it was built from exactly the same inputs
+     */
+    getGraph(fingerprint: string): Record<string, string[]> | undefined {
+        return this.data.graph?.fingerprint === fingerprint ? this.data.graph.edges : undefined;
+    }
+
+    setGraph(fingerprint: string, edges: Record<string, string[]>): void {
+        this.data.graph = { fingerprint, edges };
+        this.dirty = true;
+    }
+
+    /**
+     * Stable fingerprint of a set of inputs
+     */
+    static fingerprint(inputs: string[]): string {
+        return crypto.createHash('sha1').update(inputs.join('\n')).digest('hex');
+    }
+
+    /**
+     * Write the cache to disk if anything changed, dropping entries that have not been used for a while.
+     * Failing to write is not an error; the next run just starts cold.
+     */
+    save(): void {
+        if (!this.cacheFile || !this.dirty) {
+            return;
+        }
+
+        for (const [sha, blob] of Object.entries(this.data.blobs)) {
+            if (this.data.run - blob.lastRun > MAX_IDLE_RUNS) {
+                delete this.data.blobs[sha];
+            }
+        }
+
+        try {
+            fs.mkdirSync(path.dirname(this.cacheFile), { recursive: true });
+            const tempFile = `${this.cacheFile}.${process.pid}.tmp`;
+            fs.writeFileSync(tempFile, JSON.stringify(this.data));
+            fs.renameSync(tempFile, this.cacheFile);
+            this.dirty = false;
+        } catch {
+            // Read-only checkouts and similar: run without persisting
+        }
+    }
+
+    private read(): CacheData | null {
+        if (!this.cacheFile) {
+            return null;
+        }
+
+        try {
+            return JSON.parse(fs.readFileSync(this.cacheFile, 'utf-8'));
+        } catch {
+            return null;
+        }
+    }
+
+    private touch(sha: string): CachedBlob | undefined {
+        const blob = this.data.blobs[sha];
+        if (blob && blob.lastRun !== this.data.run) {
+            blob.lastRun = this.data.run;
+            this.dirty = true;
+        }
+        return blob;
+    }
+
+    private update(sha: string, values: Partial<CachedBlob>): void {
+        this.data.blobs[sha] = { ...this.data.blobs[sha], ...values, lastRun: this.data.run };
+        this.dirty = true;
+    }
+
+    private withFilePath(suite: TestSuite, filePath: string): TestSuite {
+        const retarget = (test: TestInfo): TestInfo => ({ ...test, filePath });
+
+        return {
+            ...suite,
+            tests: suite.tests.map(retarget),
+            suites: suite.suites.map(child => this.withFilePath(child, filePath)),
+        };
+    }
+}
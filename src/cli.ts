@@ -6,8 +6,20 @@
 
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { ImpactAnalyzer } from './analyzer/impactAnalyzer';
-import { ImpactResult } from './types';
+import { analyze, analyzeHistory, importCoverage, resolveRepository, resolveTarget, AnalyzeOptions } from './api';
+import {
+    createHistoryReporter,
+    createReporter,
+    describeTarget,
+    isHistoryFormat,
+    isOutputFormat,
+    HISTORY_FORMATS,
+    OUTPUT_FORMATS,
+} from './reporters';
+import { loadConfig } from './config/configFile';
+import { FRAMEWORKS, isTestFramework } from './frameworks';
+import { ImpactAnalysisError, InvalidOptionError } from './errors';
+import { VERSION } from './version';
 import * as path from 'path';
 import * as fs from 'fs';
 
@@ -16,100 +28,241 @@ const program = new Command();
 program
     .name('test-impact-analyzer')
     .description('Analyze git commits to identify impacted Playwright tests')
-    .version('1.0.0')
-    .requiredOption('-c, --commit <sha>', 'Git commit SHA to analyze')
+    .version(VERSION)
+    .option('-c, --commit <sha>', 'Git commit SHA to analyze')
+    .option('-b, --base <ref>', 'Base revision; changes are diffed against its merge-base with --head')
+    .option('--head <ref>', 'Head revision to compare with --base', 'HEAD')
+    .option('--range <spec>', 'Revision range to analyze (<base>..<head> or <base>...<head>)')
+    .option('--staged', 'Analyze staged changes against HEAD')
+    .option('--working-tree', 'Analyze all uncommitted changes (staged, unstaged and untracked) against HEAD')
+    .option('-m, --mainline <n>', 'Parent number to diff a merge commit against', '1')
+    .option('--test-dir <dir>', 'Directory containing tests (default: from playwright.config, else the repository)')
+    .option('--test-match <glob...>', 'Globs matching test files (default: from playwright.config, else Playwright\'s default)')
+    .option('--test-ignore <glob...>', 'Globs of test files to ignore')
+    .option('--framework <name...>', `Test frameworks to recognize (${FRAMEWORKS.join(', ')}) (default: detected from package.json)`)
+    .option('--include-tag <tag...>', 'Only report tests with one of these tags (e.g. @smoke)')
+    .option('--exclude-tag <tag...>', 'Do not report tests with any of these tags')
+    .option('--fail-on-only', 'Exit with code 1 when the change focuses a test with .only')
+    .option('--min-confidence <score>', 'Only report impacts with at least this confidence (0-1)')
+    .option('--top <n>', 'Only report the <n> impacts with the highest confidence')
+    .option('--ignore-cosmetic', 'Do not report impacts of changes that only reformat code or edit comments')
+    .option('-f, --format <format>', `Output format (${OUTPUT_FORMATS.join(', ')}) (default: "text")`)
+    .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+    .option('--config <path>', 'Config file (default: .impactrc or impact.config.* in the repository root)')
+    .option('--no-cache', 'Parse every file again instead of reusing results from previous runs')
+    .option('--coverage-map <path>', 'Coverage map to read, or to write with the coverage command (default: coverage.map from the config, else inside the git directory)')
     .requiredOption('-r, --repo <path>', 'Path to the repository')
-    .parse(process.argv);
+    .action(() => run(main));
 
-const options = program.opts();
+program
+    .command('history')
+    .description('Replay the analysis over the commit log of --head (or --range) and report how often each test was impacted')
+    .option('--path <path...>', 'Only replay commits touching these files or directories')
+    .option('-n, --max-count <n>', 'Only replay the most recent <n> commits')
+    .option('--table <table>', 'Table to write in csv format (timeline, helpers)', 'timeline')
+    .action(historyOptions => run(() => history(historyOptions)));
+
+program
+    .command('coverage')
+    .description('Import per-test coverage files from a previous run into the coverage map (--commit: revision the run was made at, default HEAD)')
+    .argument('<paths...>', 'Coverage files, or directories holding them')
+    .action(paths => run(() => coverage(paths)));
 
 async function main() {
-    const { commit, repo } = options;
+    const options = program.opts();
+    const analyzeOptions: AnalyzeOptions = {
+        repo: options.repo,
+        commit: options.commit,
+        base: options.base,
+        head: options.head,
+        range: options.range,
+        staged: options.staged,
+        workingTree: options.workingTree,
+        mainline: Number(options.mainline),
+        testDir: options.testDir,
+        testMatch: options.testMatch,
+        testIgnore: options.testIgnore,
+        frameworks: options.framework,
+        includeTags: options.includeTag,
+        excludeTags: options.excludeTag,
+        cache: options.cache === false ? false : undefined, // commander defaults negated flags to true
+        coverage: options.coverageMap ? { map: path.resolve(options.coverageMap) } : undefined,
+        minConfidence: parseMinConfidence(options.minConfidence),
+        top: parseTop(options.top),
+        ignoreCosmetic: options.ignoreCosmetic ? true : undefined,
+    };
 
-    // Validate repository path
-    const repoPath = path.resolve(repo);
-    if (!fs.existsSync(repoPath)) {
-        console.error(chalk.red(`Error: Repository path does not exist: ${repoPath}`));
-        process.exit(1);
+    // Validate everything before printing progress; flags take precedence over the config file
+    const repoPath = resolveRepository(analyzeOptions.repo);
+    const target = resolveTarget(analyzeOptions);
+    const { config } = loadConfig(repoPath, options.config);
+
+    const format: string = options.format ?? config.format ?? 'text';
+    const output: string | undefined = options.output ?? config.output;
+
+    if (!isOutputFormat(format)) {
+        throw new InvalidOptionError(`Unknown format "${format}". Expected one of: ${OUTPUT_FORMATS.join(', ')}`);
     }
 
-    // Check if it's a git repository
-    const gitDir = path.join(repoPath, '.git');
-    if (!fs.existsSync(gitDir)) {
-        console.error(chalk.red(`Error: Not a git repository: ${repoPath}`));
-        process.exit(1);
+    validateFrameworks(options.framework);
+
+    // Progress output would corrupt machine-readable formats on stdout
+    if (format === 'text') {
+        console.log(chalk.blue(`\n Analyzing ${chalk.bold(describeTarget(target))}`));
+        console.log(chalk.gray(`Repository: ${repoPath}\n`));
     }
 
-    console.log(chalk.blue(`\n Analyzing commit: ${chalk.bold(commit)}`));
-    console.log(chalk.gray(`Repository: ${repoPath}\n`));
+    const report = await analyze({ ...analyzeOptions, repo: repoPath, config });
 
-    try {
-        const analyzer = new ImpactAnalyzer(repoPath);
-        const impacts = await analyzer.analyzeCommit(commit);
+    const reporter = createReporter(format, !output);
+    const rendered = reporter.render(report);
 
-        if (impacts.length === 0) {
-            console.log(chalk.yellow('No test impacts found for this commit.'));
-            return;
+    if (output) {
+        fs.writeFileSync(path.resolve(output), rendered);
+        if (format === 'text') {
+            console.log(chalk.gray(`Report written to ${path.resolve(output)}`));
         }
+    } else {
+        process.stdout.write(rendered);
+    }
 
-        // Group impacts by type
-        const added = impacts.filter(i => i.impactType === 'added');
-        const removed = impacts.filter(i => i.impactType === 'removed');
-        const modified = impacts.filter(i => i.impactType === 'modified');
-
-        // Display results
-        displayImpacts('Added', added, 'green', '✅');
-        displayImpacts('Removed', removed, 'red', '❌');
-        displayImpacts('Modified', modified, 'yellow', '⚠️');
-
-        // Summary
-        console.log(chalk.bold(`\n Summary:`));
-        console.log(`   Total impacts: ${chalk.bold(impacts.length)}`);
-        console.log(`   Added: ${chalk.green(added.length)}`);
-        console.log(`   Removed: ${chalk.red(removed.length)}`);
-        console.log(`   Modified: ${chalk.yellow(modified.length)}`);
-
-        const indirectCount = impacts.filter(i => i.isIndirect).length;
-        if (indirectCount > 0) {
-            console.log(`   Indirect (via helpers): ${chalk.cyan(indirectCount)}\n`);
-        } else {
-            console.log('');
+    // Text output shows warnings inline; other formats may be parsed, so warnings go to stderr
+    if (format !== 'text') {
+        for (const warning of report.warnings ?? []) {
+            console.error(chalk.yellow(`Warning: ${warning}`));
         }
+    }
 
-    } catch (error) {
-        console.error(chalk.red(`\n Error: ${error instanceof Error ? error.message : String(error)}`));
-        process.exit(1);
+    // A committed `.only` makes CI run the focused tests and silently skip the rest, reported or filtered out
+    const focused = report.introducedOnly ?? [];
+    if (options.failOnOnly && focused.length > 0) {
+        console.error(chalk.red(`Error: .only added to ${focused.length} test(s): ${[...new Set(focused.map(i => i.filePath))].join(', ')}`));
+        process.exitCode = 1;
     }
 }
 
-function displayImpacts(
-    title: string,
-    impacts: ImpactResult[],
-    color: 'green' | 'red' | 'yellow',
-    icon: string
-) {
-    if (impacts.length === 0) return;
-
-    console.log(chalk.bold(`\n${icon} ${title} Tests (${impacts.length}):`));
-
-    // Create a type-safe color map
-    const colorMap = {
-        green: chalk.green,
-        red: chalk.red,
-        yellow: chalk.yellow
-    };
+/**
+ * `impact history`: the analysis options are shared with the main command; the target is a log instead of a change
+ */
+async function history(historyOptions: { path?: string[]; maxCount?: string; table: string }) {
+    const options = program.opts();
+
+    const modeFlag = [['commit', '--commit'], ['base', '--base'], ['staged', '--staged'], ['workingTree', '--working-tree']]
+        .find(([name]) => options[name])?.[1];
+    if (modeFlag) {
+        throw new InvalidOptionError(`${modeFlag} cannot be used with history; use --head or --range`);
+    }
+    if (options.top) {
+        throw new InvalidOptionError('--top cannot be used with history; use --min-confidence');
+    }
+
+    const maxCount = historyOptions.maxCount === undefined ? undefined : Number(historyOptions.maxCount);
+    if (maxCount !== undefined && (!Number.isInteger(maxCount) || maxCount < 1)) {
+        throw new InvalidOptionError(`Invalid --max-count value: ${historyOptions.maxCount}`);
+    }
+
+    // The config's `format` is for change reports, so history has its own default
+    const format: string = options.format ?? 'json';
+    if (!isHistoryFormat(format)) {
+        throw new InvalidOptionError(`Unknown history format "${format}". Expected one of: ${HISTORY_FORMATS.join(', ')}`);
+    }
+
+    const table = historyOptions.table;
+    if (table !== 'timeline' && table !== 'helpers') {
+        throw new InvalidOptionError(`Unknown table "${table}". Expected timeline or helpers`);
+    }
+
+    validateFrameworks(options.framework);
 
-    for (const impact of impacts) {
-        const indirect = impact.isIndirect ? chalk.cyan(' (indirect)') : '';
-        console.log(
-            colorMap[color](`   • "${impact.testName}"`) +
-            chalk.gray(` in ${impact.filePath}`) +
-            indirect
-        );
+    const report = await analyzeHistory({
+        repo: options.repo,
+        head: options.head,
+        range: options.range,
+        pathspecs: historyOptions.path,
+        maxCount,
+        config: options.config,
+        testDir: options.testDir,
+        testMatch: options.testMatch,
+        testIgnore: options.testIgnore,
+        frameworks: options.framework,
+        includeTags: options.includeTag,
+        excludeTags: options.excludeTag,
+        cache: options.cache === false ? false : undefined,
+        coverage: options.coverageMap ? { map: path.resolve(options.coverageMap) } : undefined,
+        minConfidence: parseMinConfidence(options.minConfidence),
+        ignoreCosmetic: options.ignoreCosmetic ? true : undefined,
+    });
+
+    const rendered = createHistoryReporter(format, table).render(report);
+    const output: string | undefined = options.output;
+
+    if (output) {
+        fs.writeFileSync(path.resolve(output), rendered);
+        console.error(chalk.gray(`Replayed ${report.commits.length} commit(s); report written to ${path.resolve(output)}`));
+    } else {
+        process.stdout.write(rendered);
+    }
+}
+
+/**
+ * `impact coverage <paths...>`: store per-test coverage for later analyses
+ */
+async function coverage(paths: string[]) {
+    const options = program.opts();
+
+    const { mapPath, coverageMap } = await importCoverage({
+        repo: options.repo,
+        inputs: paths,
+        commit: options.commit,
+        map: options.coverageMap && path.resolve(options.coverageMap),
+        config: options.config,
+    });
+
+    const files = new Set(coverageMap.tests.flatMap(test => Object.keys(test.files)));
+    console.log(chalk.green(`Imported coverage of ${coverageMap.tests.length} test(s) over ${files.size} file(s) at ${coverageMap.commit}`));
+    console.log(chalk.gray(`Coverage map written to ${mapPath}`));
+}
+
+function parseMinConfidence(value: string | undefined): number | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+
+    const score = Number(value);
+    if (!(score >= 0 && score <= 1)) {
+        throw new InvalidOptionError(`Invalid --min-confidence value: ${value} (expected a number from 0 to 1)`);
     }
+    return score;
+}
+
+function parseTop(value: string | undefined): number | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+
+    const top = Number(value);
+    if (!Number.isInteger(top) || top < 1) {
+        throw new InvalidOptionError(`Invalid --top value: ${value}`);
+    }
+    return top;
+}
+
+function validateFrameworks(frameworks: string[] | undefined) {
+    const unknownFramework = frameworks?.find(name => !isTestFramework(name));
+    if (unknownFramework) {
+        throw new InvalidOptionError(`Unknown framework "${unknownFramework}". Expected one of: ${FRAMEWORKS.join(', ')}`);
+    }
+}
+
+function run(command: () => Promise<void>) {
+    command().catch(error => {
+        if (error instanceof ImpactAnalysisError) {
+            console.error(chalk.red(`Error: ${error.message}`));
+        } else {
+            console.error(chalk.red('Unexpected error:'), error);
+        }
+        process.exit(1);
+    });
 }
 
-main().catch(error => {
-    console.error(chalk.red('Unexpected error:'), error);
-    process.exit(1);
-});
+program.parse(process.argv);
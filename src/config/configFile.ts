@@ -0,0 +1,168 @@
+/**
+ * Loading and validation of the project configuration file (.impactrc, impact.config.*)
+ */
+
+import { ts } from 'ts-morph';
+import * as path from 'path';
+import * as fs from 'fs';
+import { createRequire } from 'module';
+import { ImpactConfig } from '../types';
+import { OUTPUT_FORMATS } from '../reporters';
+import { FRAMEWORKS } from '../frameworks';
+import { RULE_IMPACTS } from './impactRules';
+import { ConfigError } from '../errors';
+
+/**
+ * Files looked up in the repository root, in order
+ */
+export const CONFIG_FILE_NAMES = [
+    '.impactrc',
+    '.impactrc.json',
+    'impact.config.json',
+    'impact.config.ts',
+    'impact.config.js',
+    'impact.config.cjs',
+];
+
+export interface LoadedConfig {
+    config: ImpactConfig;
+    configPath: string | null; // null when no config file was found
+}
+
+/**
+ * Load the config from an explicit path, or from the first config file found in the repository root
+ */
+export function loadConfig(repoPath: string, explicitPath?: string): LoadedConfig {
+    const configPath = explicitPath
+        ? path.resolve(explicitPath)
+        : CONFIG_FILE_NAMES.map(name => path.join(repoPath, name)).find(candidate => fs.existsSync(candidate));
+
+    if (!configPath) {
+        return { config: {}, configPath: null };
+    }
+
+    if (!fs.existsSync(configPath)) {
+        throw new ConfigError(`Config file not found: ${configPath}`, configPath);
+    }
+
+    const raw = readConfigFile(configPath);
+    return { config: validateConfig(raw, configPath), configPath };
+}
+
+/**
+ * Read JSON configs directly; transpile and evaluate TypeScript/JavaScript configs
+ */
+function readConfigFile(configPath: string): unknown {
+    const source = fs.readFileSync(configPath, 'utf-8');
+    const extension = path.extname(configPath);
+
+    if (extension === '' || extension === '.json') {
+        try {
+            return JSON.parse(source);
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new ConfigError(`Invalid JSON in ${configPath}: ${reason}`, configPath, [], { cause: error });
+        }
+    }
+
+    const { outputText } = ts.transpileModule(source, {
+        compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+        fileName: configPath,
+    });
+
+    try {
+        // Run as a CommonJS module whose requires resolve from the config file's directory
+        const configModule: { exports: unknown } = { exports: {} };
+        const load = new Function('exports', 'require', 'module', '__filename', '__dirname', outputText);
+        load(configModule.exports, createRequire(configPath), configModule, configPath, path.dirname(configPath));
+
+        const exported = configModule.exports;
+        return exported && typeof exported === 'object' && 'default' in exported ? exported.default : exported;
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new ConfigError(`Failed to load ${configPath}: ${reason}`, configPath, [], { cause: error });
+    }
+}
+
+/**
+ * Check a parsed config against the schema. All problems are reported at once.
+ */
+export function validateConfig(raw: unknown, source: string): ImpactConfig {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new ConfigError(`Invalid config in ${source}: expected an object`, source, ['expected an object']);
+    }
+
+    const config = raw as Record<string, unknown>;
+    const errors: string[] = [];
+
+    const isString = (value: unknown) => typeof value === 'string';
+    const isStringArray = (value: unknown) => Array.isArray(value) && value.every(isString);
+    const isRule = (value: unknown) => {
+        const rule = value as Record<string, unknown>;
+        return !!rule && typeof rule === 'object' &&
+            (rule.name === undefined || isString(rule.name)) &&
+            isStringArray(rule.files) &&
+            (RULE_IMPACTS as unknown[]).includes(rule.impact);
+    };
+
+    const checks: Record<keyof ImpactConfig, [(value: unknown) => boolean, string]> = {
+        testDir: [isString, 'a string'],
+        testMatch: [isStringArray, 'an array of glob strings'],
+        testIgnore: [isStringArray, 'an array of glob strings'],
+        ignore: [isStringArray, 'an array of glob strings'],
+        sourceRoots: [isStringArray, 'an array of directory paths'],
+        paths: [
+            value => !!value && typeof value === 'object' && !Array.isArray(value) &&
+                Object.values(value as object).every(isStringArray),
+            'an object mapping alias patterns to arrays of paths, e.g. { "@pages/*": ["pages/*"] }',
+        ],
+        frameworks: [
+            value => Array.isArray(value) && value.length > 0 && value.every(v => (FRAMEWORKS as unknown[]).includes(v)),
+            `a non-empty array of: ${FRAMEWORKS.join(', ')}`,
+        ],
+        testFunctions: [
+            value => isStringArray(value) && (value as string[]).length > 0,
+            'a non-empty array of identifiers',
+        ],
+        runAllOn: [isStringArray, 'an array of glob strings'],
+        rules: [
+            value => Array.isArray(value) && value.every(isRule),
+            `an array of { name?: string, files: string[], impact: ${RULE_IMPACTS.map(i => `"${i}"`).join(' | ')} }`,
+        ],
+        cache: [value => typeof value === 'boolean', 'true or false'],
+        includeTags: [isStringArray, 'an array of tags, e.g. ["@smoke"]'],
+        excludeTags: [isStringArray, 'an array of tags, e.g. ["@slow"]'],
+        coverage: [
+            value => {
+                const coverage = value as Record<string, unknown>;
+                return !!coverage && typeof coverage === 'object' && !Array.isArray(coverage) &&
+                    Object.keys(coverage).every(key => ['map', 'include', 'maxAge'].includes(key)) &&
+                    (coverage.map === undefined || isString(coverage.map)) &&
+                    (coverage.include === undefined || isStringArray(coverage.include)) &&
+                    (coverage.maxAge === undefined || (Number.isInteger(coverage.maxAge) && (coverage.maxAge as number) >= 0));
+            },
+            'an object { map?: string, include?: string[], maxAge?: number }',
+        ],
+        minConfidence: [value => typeof value === 'number' && value >= 0 && value <= 1, 'a number from 0 to 1'],
+        top: [value => Number.isInteger(value) && (value as number) > 0, 'a positive integer'],
+        ignoreCosmetic: [value => typeof value === 'boolean', 'true or false'],
+        format: [value => isString(value) && (OUTPUT_FORMATS as string[]).includes(value as string), `one of: ${OUTPUT_FORMATS.join(', ')}`],
+        output: [isString, 'a file path'],
+    };
+
+    for (const [key, value] of Object.entries(config)) {
+        const check = checks[key as keyof ImpactConfig];
+
+        if (!check) {
+            errors.push(`unknown option "${key}" (expected one of: ${Object.keys(checks).join(', ')})`);
+        } else if (!check[0](value)) {
+            errors.push(`"${key}" must be ${check[1]}, got ${JSON.stringify(value)}`);
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new ConfigError(`Invalid config in ${source}:\n  - ${errors.join('\n  - ')}`, source, errors);
+    }
+
+    return config as ImpactConfig;
+}
@@ -0,0 +1,40 @@
+/**
+ * Rules mapping changed files that are not (or not only) code onto the tests they affect
+ */
+
+import { ImpactRule } from '../types';
+import { matchesGlob } from './testFileMatcher';
+
+/**
+ * Built-in rules, checked after the configured ones
+ */
+export const DEFAULT_RULES: ImpactRule[] = [
+    { name: 'playwright-config', files: ['playwright.config.*'], impact: 'all' },
+    { name: 'global-setup', files: ['global-setup.*', 'global-teardown.*'], impact: 'all' },
+    { name: 'dependencies', files: ['package.json', 'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml'], impact: 'all' },
+    { name: 'environment', files: ['.env', '.env.*'], impact: 'all' },
+    { name: 'tsconfig', files: ['tsconfig*.json'], impact: 'all' },
+    { name: 'snapshots', files: ['**/*-snapshots/**'], impact: 'directory' },
+];
+
+/**
+ * Applied to changed files that are neither source files nor matched by another rule
+ * (test data, fixtures files, uploads...): tests that mention the file by path are impacted
+ */
+export const DATA_FILE_RULE: ImpactRule = { name: 'data-file', files: ['**/*'], impact: 'references' };
+
+export const RULE_IMPACTS: ImpactRule['impact'][] = ['all', 'directory', 'references'];
+
+/**
+ * Find the first rule whose globs match a repository-relative path
+ */
+export function findMatchingRule(filePath: string, rules: ImpactRule[]): ImpactRule | undefined {
+    return rules.find(rule => matchesGlob(filePath, rule.files));
+}
+
+/**
+ * Name reported for a rule in results
+ */
+export function ruleName(rule: ImpactRule): string {
+    return rule.name ?? rule.files.join(', ');
+}
@@ -0,0 +1,224 @@
+/**
+ * Static reader for the test file settings of a Playwright config (testDir, testMatch, testIgnore).
+ * The config is parsed, never executed, so only literal values are understood.
+ */
+
+import { Project, Node, SyntaxKind, ObjectLiteralExpression, Expression } from 'ts-morph';
+import * as path from 'path';
+import { FileSource } from '../git/fileSource';
+import { TestPattern } from '../types';
+
+const CONFIG_FILE_NAMES = [
+    'playwright.config.ts',
+    'playwright.config.mts',
+    'playwright.config.cts',
+    'playwright.config.js',
+    'playwright.config.mjs',
+    'playwright.config.cjs',
+];
+
+export interface PlaywrightTestFileSettings {
+    testDir?: string; // absolute
+    testMatch?: TestPattern[];
+    testIgnore?: TestPattern[];
+}
+
+export interface PlaywrightConfigInfo extends PlaywrightTestFileSettings {
+    configPath: string;
+    projects: PlaywrightTestFileSettings[];
+}
+
+/**
+ * Parsed configs by path and blob SHA: replaying history reads the config at every commit, but parses each version once
+ */
+const parsedConfigs = new Map<string, PlaywrightConfigInfo>();
+
+/**
+ * Shared by every parse; each config file is forgotten once its settings are read
+ */
+let project: Project | null = null;
+
+/**
+ * Find and read the Playwright config at the repository root of a revision. Returns null when there is none.
+ */
+export async function readPlaywrightConfig(source: FileSource, repoPath: string): Promise<PlaywrightConfigInfo | null> {
+    const files = await source.listFiles();
+
+    for (const name of CONFIG_FILE_NAMES) {
+        const sha = files.get(name);
+        if (!sha) {
+            continue;
+        }
+
+        const configPath = path.join(repoPath, name);
+        const key = `${configPath}\0${sha}`;
+        const cached = parsedConfigs.get(key);
+        if (cached) {
+            return cached;
+        }
+
+        const content = await source.readFile(name);
+        if (content !== null) {
+            const info = parsePlaywrightConfig(configPath, content);
+            parsedConfigs.set(key, info);
+            return info;
+        }
+    }
+
+    return null;
+}
+
+function parsePlaywrightConfig(configPath: string, content: string): PlaywrightConfigInfo {
+    if (!project) {
+        project = new Project({ skipAddingFilesFromTsConfig: true, compilerOptions: { allowJs: true } });
+    }
+    const sourceFile = project.createSourceFile(path.basename(configPath), content, { overwrite: true });
+
+    try {
+        const configObject = findConfigObject(sourceFile.getStatements().map(s => s as Node));
+        const configDir = path.dirname(configPath);
+        const info: PlaywrightConfigInfo = { configPath, projects: [] };
+
+        if (!configObject) {
+            return info;
+        }
+
+        Object.assign(info, readSettings(configObject, configDir));
+
+        const projects = getProperty(configObject, 'projects');
+        if (projects && Node.isArrayLiteralExpression(projects)) {
+            for (const element of projects.getElements()) {
+                if (Node.isObjectLiteralExpression(element)) {
+                    info.projects.push(readSettings(element, configDir));
+                }
+            }
+        }
+
+        return info;
+    } finally {
+        sourceFile.forget();
+    }
+}
+
+/**
+ * Locate the exported config object: `export default defineConfig({...})`, `export default config`,
+ * `export default {...}` or `module.exports = ...`
+ */
+function findConfigObject(statements: Node[]): ObjectLiteralExpression | undefined {
+    for (const statement of statements) {
+        let exported: Expression | undefined;
+
+        if (Node.isExportAssignment(statement)) {
+            exported = statement.getExpression();
+        } else if (Node.isExpressionStatement(statement)) {
+            const expression = statement.getExpression();
+            if (Node.isBinaryExpression(expression) && expression.getLeft().getText() === 'module.exports') {
+                exported = expression.getRight();
+            }
+        }
+
+        if (exported) {
+            return unwrapConfig(exported);
+        }
+    }
+
+    return undefined;
+}
+
+function unwrapConfig(expression: Node): ObjectLiteralExpression | undefined {
+    if (Node.isObjectLiteralExpression(expression)) {
+        return expression;
+    }
+
+    // defineConfig({...}) and similar wrappers
+    if (Node.isCallExpression(expression)) {
+        const [firstArg] = expression.getArguments();
+        return firstArg ? unwrapConfig(firstArg) : undefined;
+    }
+
+    if (Node.isAsExpression(expression) || Node.isSatisfiesExpression(expression) || Node.isParenthesizedExpression(expression)) {
+        return unwrapConfig(expression.getExpression());
+    }
+
+    if (Node.isIdentifier(expression)) {
+        const declaration = expression.getSourceFile().getVariableDeclaration(expression.getText());
+        const initializer = declaration?.getInitializer();
+        return initializer ? unwrapConfig(initializer) : undefined;
+    }
+
+    return undefined;
+}
+
+function readSettings(object: ObjectLiteralExpression, configDir: string): PlaywrightTestFileSettings {
+    const settings: PlaywrightTestFileSettings = {};
+
+    const testDir = getProperty(object, 'testDir');
+    const testDirValue = testDir ? evaluatePath(testDir) : undefined;
+    if (testDirValue !== undefined) {
+        settings.testDir = path.resolve(configDir, testDirValue);
+    }
+
+    const testMatch = getProperty(object, 'testMatch');
+    if (testMatch) {
+        settings.testMatch = evaluatePatterns(testMatch);
+    }
+
+    const testIgnore = getProperty(object, 'testIgnore');
+    if (testIgnore) {
+        settings.testIgnore = evaluatePatterns(testIgnore);
+    }
+
+    return settings;
+}
+
+function getProperty(object: ObjectLiteralExpression, name: string): Node | undefined {
+    const property = object.getProperty(name);
+    if (property && Node.isPropertyAssignment(property)) {
+        return property.getInitializer();
+    }
+    return undefined;
+}
+
+/**
+ * Evaluate a string literal, or `path.join(__dirname, 'a', 'b')` / `path.resolve(...)` with literal parts
+ */
+function evaluatePath(node: Node): string | undefined {
+    if (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node)) {
+        return node.getLiteralValue();
+    }
+
+    if (Node.isCallExpression(node) && /(^|\.)(join|resolve)$/.test(node.getExpression().getText())) {
+        const parts: string[] = [];
+        for (const arg of node.getArguments()) {
+            if (arg.getText() === '__dirname' || arg.getText() === 'process.cwd()') {
+                continue;
+            }
+            const value = evaluatePath(arg);
+            if (value === undefined) {
+                return undefined;
+            }
+            parts.push(value);
+        }
+        return path.join(...parts);
+    }
+
+    return undefined;
+}
+
+function evaluatePatterns(node: Node): TestPattern[] {
+    const elements = Node.isArrayLiteralExpression(node) ? node.getElements() : [node];
+    const patterns: TestPattern[] = [];
+
+    for (const element of elements) {
+        if (Node.isStringLiteral(element) || Node.isNoSubstitutionTemplateLiteral(element)) {
+            patterns.push(element.getLiteralValue());
+        } else if (element.getKind() === SyntaxKind.RegularExpressionLiteral) {
+            const match = element.getText().match(/^\/(.*)\/([a-z]*)$/s);
+            if (match) {
+                patterns.push(new RegExp(match[1], match[2]));
+            }
+        }
+    }
+
+    return patterns;
+}
@@ -0,0 +1,171 @@
+/**
+ * Single source of truth for which files are tests and which are analyzable sources
+ */
+
+import { minimatch } from 'minimatch';
+import * as path from 'path';
+import { FrameworkAdapter, TestFileOptions, TestPattern } from '../types';
+import { FileSource } from '../git/fileSource';
+import { readPlaywrightConfig } from './playwrightConfig';
+
+/**
+ * Playwright's default testMatch
+ */
+export const DEFAULT_TEST_MATCH = '**/*.@(spec|test).?(c|m)[jt]s?(x)';
+
+const SOURCE_FILE_PATTERN = /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/;
+
+/**
+ * Check if a file is a TypeScript or JavaScript source file (declaration files excluded)
+ */
+export function isSourceFile(filePath: string): boolean {
+    return SOURCE_FILE_PATTERN.test(filePath) && !/\.d\.[mc]?ts$/.test(filePath);
+}
+
+/**
+ * Match a relative path against globs; globs without a slash match the file name at any depth
+ */
+export function matchesGlob(relativePath: string, globs: string[]): boolean {
+    const posixPath = relativePath.split(path.sep).join('/');
+    return globs.some(glob => minimatch(posixPath, glob, { dot: true, matchBase: !glob.includes('/') }));
+}
+
+interface TestFileScope {
+    testDir: string; // absolute
+    testMatch: TestPattern[];
+    testIgnore: TestPattern[];
+    anchored?: boolean; // globs with a slash match from testDir (`test/*.js`) rather than at any depth
+    excludeDirs?: string[]; // absolute; directories whose test files another framework's config decides on
+}
+
+export class TestFileMatcher {
+    private repoPath: string;
+    private scopes: TestFileScope[];
+    private ignore: string[];
+
+    constructor(repoPath: string, scopes: TestFileScope[], ignore: string[] = []) {
+        this.repoPath = repoPath;
+        this.scopes = scopes;
+        this.ignore = ignore;
+    }
+
+    /**
+     * Build a matcher from the Playwright config of a revision, with explicit options taking precedence.
+     * Each Playwright project contributes its own testDir/testMatch/testIgnore; other frameworks
+     * contribute their default test globs across the repository, except in the test directories
+     * the Playwright config names, where only its own rules apply.
+     */
+    static async fromSource(
+        source: FileSource,
+        repoPath: string,
+        options: TestFileOptions = {},
+        adapters?: FrameworkAdapter[]
+    ): Promise<TestFileMatcher> {
+        const config = await readPlaywrightConfig(source, repoPath);
+
+        const root: TestFileScope = {
+            testDir: config?.testDir ?? repoPath,
+            testMatch: config?.testMatch ?? [DEFAULT_TEST_MATCH],
+            testIgnore: config?.testIgnore ?? [],
+        };
+
+        const playwrightScopes = config && config.projects.length > 0
+            ? config.projects.map(project => ({
+                testDir: project.testDir ?? root.testDir,
+                testMatch: project.testMatch ?? root.testMatch,
+                testIgnore: project.testIgnore ?? root.testIgnore,
+            }))
+            : [root];
+
+        const usesPlaywright = !adapters || adapters.some(adapter => adapter.name === 'playwright');
+        // A test directory given as an option applies to every framework, so nothing is set apart then
+        const playwrightDirs = usesPlaywright && !options.testDir
+            ? [...new Set(playwrightScopes.map(scope => scope.testDir))].filter(dir => dir !== repoPath)
+            : [];
+        const scopes: TestFileScope[] = [
+            ...(usesPlaywright ? playwrightScopes : []),
+            ...(adapters ?? [])
+                .filter(adapter => adapter.name !== 'playwright')
+                .map(adapter => ({
+                    testDir: repoPath,
+                    testMatch: adapter.testMatch,
+                    testIgnore: [],
+                    anchored: true,
+                    ...(playwrightDirs.length > 0 && { excludeDirs: playwrightDirs }),
+                })),
+        ];
+
+        const overridden = scopes.map(scope => ({
+            ...scope,
+            testDir: options.testDir ? path.resolve(repoPath, options.testDir) : scope.testDir,
+            testMatch: options.testMatch ?? scope.testMatch,
+            testIgnore: options.testIgnore ?? scope.testIgnore,
+            anchored: !options.testMatch && scope.anchored,
+        }));
+
+        return new TestFileMatcher(repoPath, overridden, options.ignore);
+    }
+
+    /**
+     * Absolute test directories of all scopes
+     */
+    getTestDirs(): string[] {
+        return [...new Set(this.scopes.map(scope => scope.testDir))];
+    }
+
+    /**
+     * Check if a file (absolute or relative to the repository) is excluded from analysis
+     */
+    isIgnored(filePath: string): boolean {
+        const relativePath = path.relative(this.repoPath, path.resolve(this.repoPath, filePath));
+        return matchesGlob(relativePath, this.ignore);
+    }
+
+    /**
+     * Check if a file is a source file that takes part in analysis
+     */
+    isAnalyzableSource(filePath: string): boolean {
+        return isSourceFile(filePath) && !this.isIgnored(filePath);
+    }
+
+    /**
+     * Check if a file (absolute or relative to the repository) is a test file
+     */
+    isTestFile(filePath: string): boolean {
+        const absolutePath = path.resolve(this.repoPath, filePath);
+        if (!this.isAnalyzableSource(absolutePath)) {
+            return false;
+        }
+
+        return this.scopes.some(scope => {
+            if (!isInside(scope.testDir, absolutePath) || scope.excludeDirs?.some(dir => isInside(dir, absolutePath))) {
+                return false;
+            }
+
+            const relativePath = path.relative(scope.testDir, absolutePath);
+            return this.matchesAny(scope.testMatch, absolutePath, relativePath, scope.anchored) &&
+                !this.matchesAny(scope.testIgnore, absolutePath, relativePath, scope.anchored);
+        });
+    }
+
+    /**
+     * Globs are matched against the path relative to testDir (at any depth, like Playwright, unless anchored),
+     * regular expressions against the absolute path
+     */
+    private matchesAny(patterns: TestPattern[], absolutePath: string, relativePath: string, anchored = false): boolean {
+        return patterns.some(pattern => {
+            if (pattern instanceof RegExp) {
+                pattern.lastIndex = 0;
+                return pattern.test(absolutePath);
+            }
+
+            const glob = anchored || pattern.startsWith('**/') || pattern.startsWith('/') ? pattern : `**/${pattern}`;
+            return matchesGlob(relativePath, [glob]);
+        });
+    }
+}
+
+function isInside(dir: string, absolutePath: string): boolean {
+    const relativePath = path.relative(dir, absolutePath);
+    return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+}
@@ -0,0 +1,64 @@
+/**
+ * Error classes thrown by the analyzer; callers can tell them apart with `instanceof`
+ */
+
+/**
+ * Base class of every error the analyzer throws on purpose
+ */
+export class ImpactAnalysisError extends Error {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message);
+        this.name = new.target.name;
+        if (options && 'cause' in options) {
+            (this as { cause?: unknown }).cause = options.cause;
+        }
+    }
+}
+
+/**
+ * The repository path does not exist or is not a git repository
+ */
+export class RepositoryError extends ImpactAnalysisError {
+    readonly repoPath: string;
+
+    constructor(message: string, repoPath: string) {
+        super(message);
+        this.repoPath = repoPath;
+    }
+}
+
+/**
+ * A git command failed, e.g. because a revision does not exist
+ */
+export class GitError extends ImpactAnalysisError {}
+
+/**
+ * The config file could not be read or failed validation
+ */
+export class ConfigError extends ImpactAnalysisError {
+    readonly configPath: string;
+    readonly problems: string[]; // one entry per validation problem; empty for read errors
+
+    constructor(message: string, configPath: string, problems: string[] = [], options?: { cause?: unknown }) {
+        super(message, options);
+        this.configPath = configPath;
+        this.problems = problems;
+    }
+}
+
+/**
+ * Options that are missing, conflicting or malformed (analysis mode, range spec, mainline, format)
+ */
+export class InvalidOptionError extends ImpactAnalysisError {}
+
+/**
+ * Coverage input or a stored coverage map could not be read
+ */
+export class CoverageError extends ImpactAnalysisError {
+    readonly filePath: string;
+
+    constructor(message: string, filePath: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.filePath = filePath;
+    }
+}
@@ -0,0 +1,69 @@
+/**
+ * Building blocks for framework adapters whose syntax is a global function with chained modifiers
+ */
+
+import { HookKind, TestCallKind, TestModifier } from '../types';
+
+export interface ChainSyntax {
+    tests: { roots: string[]; modifiers: string[] };
+    suites: { roots: string[]; modifiers: string[] };
+    hooks: Map<string, HookKind>; // global hook functions
+    parameterized: string[]; // final modifiers that take a table, e.g. `each`
+}
+
+/**
+ * Modifiers and prefixed roots (`fit`, `xdescribe`) that map onto Playwright's modifiers.
+ * Conditional ones (`skipIf`, `runIf`) are left out, since whether they apply is only known at runtime.
+ */
+const RUN_MODIFIERS = new Map<string, TestModifier>([
+    ['only', 'only'],
+    ['fit', 'only'],
+    ['fdescribe', 'only'],
+    ['skip', 'skip'],
+    ['xit', 'skip'],
+    ['xtest', 'skip'],
+    ['xspecify', 'skip'],
+    ['xdescribe', 'skip'],
+    ['xcontext', 'skip'],
+    ['todo', 'fixme'],
+    ['failing', 'fail'],
+    ['fails', 'fail'],
+]);
+
+/**
+ * Classify `root.modifier.modifier...` calls, e.g. `it.concurrent.only` or `describe.each`
+ */
+export function classifyChain(path: string[], syntax: ChainSyntax): TestCallKind | null {
+    const [root, ...rest] = path;
+    const parameterized = rest.length > 0 && syntax.parameterized.includes(rest[rest.length - 1]);
+    const modifiers = parameterized ? rest.slice(0, -1) : rest;
+    const runModifiers = [root, ...modifiers].flatMap(name => RUN_MODIFIERS.get(name) ?? []);
+
+    if (syntax.tests.roots.includes(root) && modifiers.every(m => syntax.tests.modifiers.includes(m))) {
+        return { kind: 'test', parameterized, modifiers: runModifiers };
+    }
+
+    if (syntax.suites.roots.includes(root) && modifiers.every(m => syntax.suites.modifiers.includes(m))) {
+        return { kind: 'suite', parameterized, modifiers: runModifiers };
+    }
+
+    const hook = syntax.hooks.get(root);
+    return hook && rest.length === 0 ? { kind: 'hook', hook } : null;
+}
+
+/**
+ * Identifiers a chain syntax starts with
+ */
+export function chainGlobals(syntax: ChainSyntax): string[] {
+    return [...syntax.tests.roots, ...syntax.suites.roots, ...syntax.hooks.keys()];
+}
+
+/**
+ * `beforeEach`, `afterEach`, `beforeAll` and `afterAll` as globals (Jest, Vitest)
+ */
+export const STANDARD_HOOKS = new Map<string, HookKind>([
+    ['beforeEach', 'beforeEach'],
+    ['afterEach', 'afterEach'],
+    ['beforeAll', 'beforeAll'],
+    ['afterAll', 'afterAll'],
+]);
@@ -0,0 +1,68 @@
+/**
+ * Framework adapter registry and detection
+ */
+
+import { FrameworkAdapter, TestFramework } from '../types';
+import { playwrightAdapter } from './playwright';
+import { jestAdapter } from './jest';
+import { vitestAdapter } from './vitest';
+import { mochaAdapter, cypressAdapter } from './mocha';
+
+export const FRAMEWORKS: TestFramework[] = ['playwright', 'jest', 'vitest', 'mocha', 'cypress'];
+
+/**
+ * Packages whose presence in package.json means a framework is in use
+ */
+const FRAMEWORK_PACKAGES: Record<TestFramework, string[]> = {
+    playwright: ['@playwright/test', 'playwright'],
+    jest: ['jest'],
+    vitest: ['vitest'],
+    mocha: ['mocha'],
+    cypress: ['cypress'],
+};
+
+export function isTestFramework(value: string): value is TestFramework {
+    return (FRAMEWORKS as string[]).includes(value);
+}
+
+/**
+ * Create the adapters for a set of frameworks. When several recognize a call, the first one listed wins.
+ * `testFunctions` names the Playwright test objects.
+ */
+export function createFrameworkAdapters(frameworks: TestFramework[], testFunctions?: string[]): FrameworkAdapter[] {
+    return frameworks.map(framework => {
+        switch (framework) {
+            case 'playwright':
+                return playwrightAdapter(testFunctions);
+            case 'jest':
+                return jestAdapter();
+            case 'vitest':
+                return vitestAdapter();
+            case 'mocha':
+                return mochaAdapter();
+            case 'cypress':
+                return cypressAdapter();
+        }
+    });
+}
+
+/**
+ * Frameworks listed in the content of the root package.json (dependencies or devDependencies),
+ * Playwright if none is or there is no package.json
+ */
+export function detectFrameworks(packageJson: string | null): TestFramework[] {
+    let dependencies: Record<string, unknown> = {};
+
+    try {
+        const manifest = JSON.parse(packageJson ?? '{}');
+        dependencies = { ...manifest.dependencies, ...manifest.devDependencies };
+    } catch {
+        // Unreadable package.json
+    }
+
+    const detected = FRAMEWORKS.filter(framework =>
+        FRAMEWORK_PACKAGES[framework].some(name => name in dependencies)
+    );
+
+    return detected.length > 0 ? detected : ['playwright'];
+}
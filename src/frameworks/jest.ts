@@ -0,0 +1,22 @@
+/**
+ * Jest: global `test`/`it` and `describe` with chained modifiers, and `.each` tables
+ */
+
+import { FrameworkAdapter } from '../types';
+import { ChainSyntax, STANDARD_HOOKS, chainGlobals, classifyChain } from './common';
+
+const SYNTAX: ChainSyntax = {
+    tests: { roots: ['test', 'it', 'fit', 'xit', 'xtest'], modifiers: ['only', 'skip', 'concurrent', 'failing'] },
+    suites: { roots: ['describe', 'fdescribe', 'xdescribe'], modifiers: ['only', 'skip'] },
+    hooks: STANDARD_HOOKS,
+    parameterized: ['each'],
+};
+
+export function jestAdapter(): FrameworkAdapter {
+    return {
+        name: 'jest',
+        globals: chainGlobals(SYNTAX),
+        testMatch: ['**/__tests__/**/*.?(c|m)[jt]s?(x)', '**/*.@(spec|test).?(c|m)[jt]s?(x)'],
+        classify: path => classifyChain(path, SYNTAX),
+    };
+}
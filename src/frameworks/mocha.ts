@@ -0,0 +1,36 @@
+/**
+ * Mocha's BDD interface (`describe`/`context`, `it`/`specify`, `before`/`after` hooks), which Cypress also uses
+ */
+
+import { FrameworkAdapter, HookKind } from '../types';
+import { ChainSyntax, chainGlobals, classifyChain } from './common';
+
+const SYNTAX: ChainSyntax = {
+    tests: { roots: ['it', 'specify', 'xit', 'xspecify'], modifiers: ['only', 'skip'] },
+    suites: { roots: ['describe', 'context', 'xdescribe', 'xcontext'], modifiers: ['only', 'skip'] },
+    hooks: new Map<string, HookKind>([
+        ['before', 'beforeAll'],
+        ['after', 'afterAll'],
+        ['beforeEach', 'beforeEach'],
+        ['afterEach', 'afterEach'],
+    ]),
+    parameterized: [],
+};
+
+export function mochaAdapter(): FrameworkAdapter {
+    return {
+        name: 'mocha',
+        globals: chainGlobals(SYNTAX),
+        testMatch: ['test/*.?(c|m)js', '**/*.@(spec|test).?(c|m)[jt]s'],
+        classify: path => classifyChain(path, SYNTAX),
+    };
+}
+
+export function cypressAdapter(): FrameworkAdapter {
+    return {
+        name: 'cypress',
+        globals: chainGlobals(SYNTAX),
+        testMatch: ['**/*.cy.?(c|m)[jt]s?(x)'],
+        classify: path => classifyChain(path, SYNTAX),
+    };
+}
@@ -0,0 +1,53 @@
+/**
+ * Playwright Test: everything hangs off the test object (`test`, `test.describe`, `test.beforeEach`, `test.use`)
+ */
+
+import { FrameworkAdapter, HookKind, TestModifier } from '../types';
+import { DEFAULT_TEST_MATCH } from '../config/testFileMatcher';
+
+const TEST_MODIFIERS: TestModifier[] = ['skip', 'only', 'fixme', 'fail', 'slow'];
+const SUITE_MODIFIERS: TestModifier[] = ['skip', 'only', 'fixme'];
+
+const HOOKS = new Map<string, HookKind>([
+    ['beforeEach', 'beforeEach'],
+    ['afterEach', 'afterEach'],
+    ['beforeAll', 'beforeAll'],
+    ['afterAll', 'afterAll'],
+    ['use', 'use'],
+]);
+
+/**
+ * @param testFunctions names of test objects, for projects that export their own under another name
+ */
+export function playwrightAdapter(testFunctions: string[] = ['test']): FrameworkAdapter {
+    return {
+        name: 'playwright',
+        globals: testFunctions,
+        testMatch: [DEFAULT_TEST_MATCH],
+        classify: ([root, ...rest]) => {
+            if (!testFunctions.includes(root)) {
+                return null;
+            }
+
+            // test.describe, test.describe.serial.only, ...; `test.describe.configure()` configures the enclosing block instead
+            if (rest[0] === 'describe') {
+                return rest.length === 2 && rest[1] === 'configure'
+                    ? { kind: 'hook', hook: 'configure' }
+                    : { kind: 'suite', modifiers: rest.filter((m): m is TestModifier => isModifier(m, SUITE_MODIFIERS)) };
+            }
+
+            const hook = rest.length === 1 ? HOOKS.get(rest[0]) : undefined;
+            if (hook) {
+                return { kind: 'hook', hook };
+            }
+
+            return rest.length <= 1 && rest.every((m): m is TestModifier => isModifier(m, TEST_MODIFIERS))
+                ? { kind: 'test', modifiers: rest }
+                : null;
+        },
+    };
+}
+
+function isModifier(name: string, modifiers: TestModifier[]): name is TestModifier {
+    return (modifiers as string[]).includes(name);
+}
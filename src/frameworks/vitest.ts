@@ -0,0 +1,24 @@
+/**
+ * Vitest: Jest-style globals (usually imported from 'vitest'), plus `.for` tables and conditional `skipIf`/`runIf`
+ */
+
+import { FrameworkAdapter } from '../types';
+import { ChainSyntax, STANDARD_HOOKS, chainGlobals, classifyChain } from './common';
+
+const MODIFIERS = ['only', 'skip', 'todo', 'concurrent', 'sequential', 'skipIf', 'runIf'];
+
+const SYNTAX: ChainSyntax = {
+    tests: { roots: ['test', 'it'], modifiers: [...MODIFIERS, 'fails'] },
+    suites: { roots: ['describe', 'suite'], modifiers: [...MODIFIERS, 'shuffle'] },
+    hooks: STANDARD_HOOKS,
+    parameterized: ['each', 'for'],
+};
+
+export function vitestAdapter(): FrameworkAdapter {
+    return {
+        name: 'vitest',
+        globals: chainGlobals(SYNTAX),
+        testMatch: ['**/*.@(spec|test).?(c|m)[jt]s?(x)'],
+        classify: path => classifyChain(path, SYNTAX),
+    };
+}
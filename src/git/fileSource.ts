@@ -0,0 +1,176 @@
+/**
+ * Read-only views of the repository's files at a revision: a commit's tree, the index or the working tree.
+ * Everything the dependency analysis reads (spec discovery, imports, test sources, tsconfig) goes through one.
+ */
+
+import { ts } from 'ts-morph';
+import * as path from 'path';
+import * as fs from 'fs';
+import { GitOperations, WORKING_TREE_REF, hashBlob } from './operations';
+
+/**
+ * Synchronous file system view for module resolution and tsconfig parsing, in TypeScript's host shape
+ */
+export type FileSystemHost = ts.ModuleResolutionHost & ts.ParseConfigHost & {
+    getDirectories(dir: string): string[];
+};
+
+export interface FileSource {
+    readonly revision: string; // commit, INDEX_REF or WORKING_TREE_REF
+
+    /**
+     * All files with their blob SHAs, keyed by repository-relative path (forward slashes)
+     */
+    listFiles(): Promise<Map<string, string>>;
+
+    /**
+     * Content of a file by repository-relative path, or null if it does not exist at this revision
+     */
+    readFile(filePath: string): Promise<string | null>;
+
+    /**
+     * Synchronous view of the same files, with absolute paths
+     */
+    getHost(): Promise<FileSystemHost>;
+}
+
+/**
+ * File source for a revision: the files on disk for WORKING_TREE_REF, git objects otherwise
+ */
+export function createFileSource(gitOps: GitOperations, repoPath: string, revision: string): FileSource {
+    return revision === WORKING_TREE_REF
+        ? new WorkingTreeSource(gitOps, repoPath)
+        : new GitObjectSource(gitOps, repoPath, revision);
+}
+
+/**
+ * Files of a commit's tree or of the index, read from the object database.
+ * Works without a checkout (bare repositories) and for any historical commit.
+ */
+export class GitObjectSource implements FileSource {
+    readonly revision: string;
+    private gitOps: GitOperations;
+    private repoPath: string;
+    private files: Promise<Map<string, string>> | null = null;
+    private host: FileSystemHost | null = null;
+
+    constructor(gitOps: GitOperations, repoPath: string, revision: string) {
+        this.gitOps = gitOps;
+        this.repoPath = repoPath;
+        this.revision = revision;
+    }
+
+    listFiles(): Promise<Map<string, string>> {
+        if (!this.files) {
+            this.files = this.gitOps.listFilesAtRevision(this.revision);
+        }
+        return this.files;
+    }
+
+    async readFile(filePath: string): Promise<string | null> {
+        const sha = (await this.listFiles()).get(filePath);
+        return sha ? this.gitOps.readBlob(sha) : null;
+    }
+
+    async getHost(): Promise<FileSystemHost> {
+        if (!this.host) {
+            this.host = this.createHost(await this.listFiles());
+        }
+        return this.host;
+    }
+
+    /**
+     * Answer file system queries from the file list; directories are the ancestors of listed files.
+     * Contents are read on demand and kept, since TypeScript asks for the same manifests repeatedly.
+     */
+    private createHost(files: Map<string, string>): FileSystemHost {
+        const absoluteFiles = new Map([...files].map(([file, sha]) => [path.join(this.repoPath, file), sha]));
+        const directories = new Set<string>();
+        const contents = new Map<string, string>();
+
+        for (const file of absoluteFiles.keys()) {
+            for (let dir = path.dirname(file); !directories.has(dir); dir = path.dirname(dir)) {
+                directories.add(dir);
+                if (dir === this.repoPath || path.dirname(dir) === dir) break;
+            }
+        }
+
+        return {
+            useCaseSensitiveFileNames: true,
+            fileExists: file => absoluteFiles.has(path.resolve(file)),
+            directoryExists: dir => directories.has(path.resolve(dir)),
+            getDirectories: dir => [...directories]
+                .filter(candidate => path.dirname(candidate) === path.resolve(dir) && candidate !== path.resolve(dir))
+                .map(candidate => path.basename(candidate)),
+            readFile: file => {
+                const sha = absoluteFiles.get(path.resolve(file));
+                if (!sha) {
+                    return undefined;
+                }
+                if (!contents.has(sha)) {
+                    contents.set(sha, this.gitOps.readBlobSync(sha));
+                }
+                return contents.get(sha);
+            },
+            realpath: file => file,
+            // Only compiler options are needed from a tsconfig, not the files it includes
+            readDirectory: () => [],
+        };
+    }
+}
+
+/**
+ * Files on disk: tracked and untracked (not ignored) files, with uncommitted edits
+ */
+export class WorkingTreeSource implements FileSource {
+    readonly revision = WORKING_TREE_REF;
+    private gitOps: GitOperations;
+    private repoPath: string;
+    private files: Promise<Map<string, string>> | null = null;
+
+    constructor(gitOps: GitOperations, repoPath: string) {
+        this.gitOps = gitOps;
+        this.repoPath = repoPath;
+    }
+
+    listFiles(): Promise<Map<string, string>> {
+        if (!this.files) {
+            this.files = this.hashFiles();
+        }
+        return this.files;
+    }
+
+    async readFile(filePath: string): Promise<string | null> {
+        try {
+            return await fs.promises.readFile(path.join(this.repoPath, filePath), 'utf-8');
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * The real file system, so installed packages and workspace symlinks resolve as they do for TypeScript
+     */
+    async getHost(): Promise<FileSystemHost> {
+        return ts.sys;
+    }
+
+    /**
+     * Files modified, untracked or conflicted on disk are hashed from their content; deleted ones are left out
+     */
+    private async hashFiles(): Promise<Map<string, string>> {
+        const files = new Map<string, string>();
+
+        for (const [file, sha] of await this.gitOps.listWorkingTreeFiles()) {
+            const fullPath = path.join(this.repoPath, file);
+
+            if (sha) {
+                files.set(file, sha);
+            } else if (fs.existsSync(fullPath) && fs.statSync(fullPath).isFile()) {
+                files.set(file, hashBlob(await fs.promises.readFile(fullPath)));
+            }
+        }
+
+        return files;
+    }
+}
@@ -3,8 +3,90 @@
  */
 
 import simpleGit, { SimpleGit, DiffResult } from 'simple-git';
+import { execFileSync } from 'child_process';
 import * as path from 'path';
-import { ChangedFile, FileChange, Hunk } from '../types';
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import { ChangedFile, HistoryCommit, Hunk, RevisionRange } from '../types';
+import { GitError, InvalidOptionError } from '../errors';
+
+/**
+ * Well-known SHA of git's empty tree, used as the base of root commits
+ */
+export const EMPTY_TREE_SHA = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+/**
+ * Pseudo-revision for the staged content in the index
+ */
+export const INDEX_REF = '<index>';
+
+/**
+ * Pseudo-revision for the files on disk, including unstaged and untracked changes
+ */
+export const WORKING_TREE_REF = '<working-tree>';
+
+/**
+ * Parse a range spec such as `main..feature` or `main...feature`.
+ * Three dots mean the base is the merge-base of both sides, mirroring `git diff A...B`.
+ */
+export function parseRangeSpec(spec: string): RevisionRange {
+    const match = spec.match(/^(.+?)(\.\.\.?)(.+)$/);
+    if (!match) {
+        throw new InvalidOptionError(`Invalid range "${spec}": expected <base>..<head> or <base>...<head>`);
+    }
+
+    return {
+        base: match[1],
+        head: match[3],
+        useMergeBase: match[2] === '...',
+    };
+}
+
+/**
+ * Compute the SHA git gives a blob with this content (as `git hash-object` does)
+ */
+export function hashBlob(content: string | Buffer): string {
+    const bytes = typeof content === 'string' ? Buffer.from(content, 'utf-8') : content;
+    return crypto.createHash('sha1').update(`blob ${bytes.length}\0`).update(bytes).digest('hex');
+}
+
+/**
+ * Split NUL-separated git output (`-z`)
+ */
+function splitPaths(output: string): string[] {
+    return output.split('\0').filter(Boolean);
+}
+
+/**
+ * Undo git's C-style quoting of a path in diff headers (`"tests/say \"hi\".spec.ts"`, octal escapes for bytes).
+ * Unquoted paths are returned as they are.
+ */
+function unquotePath(text: string): string {
+    if (text.length < 2 || !text.startsWith('"') || !text.endsWith('"')) {
+        return text;
+    }
+
+    const escapes: Record<string, number> = { a: 7, b: 8, t: 9, n: 10, v: 11, f: 12, r: 13 };
+    const bytes: number[] = [];
+    for (const [, octal, escaped, plain] of text.slice(1, -1).matchAll(/\\([0-7]{3})|\\(.)|([^\\]+)/gs)) {
+        if (octal !== undefined) {
+            bytes.push(parseInt(octal, 8));
+        } else if (escaped !== undefined) {
+            bytes.push(escapes[escaped] ?? escaped.charCodeAt(0));
+        } else {
+            bytes.push(...Buffer.from(plain, 'utf-8'));
+        }
+    }
+
+    return Buffer.from(bytes).toString('utf-8');
+}
+
+/**
+ * Path of a `---`/`+++` line: git ends names containing spaces with a tab, and quotes special ones
+ */
+function parseFileLinePath(text: string): string {
+    return unquotePath(text.replace(/\t$/, ''));
+}
 
 export class GitOperations {
     private git: SimpleGit;
@@ -12,145 +94,475 @@ export class GitOperations {
 
     constructor(repoPath: string) {
         this.repoPath = repoPath;
-        this.git = simpleGit(repoPath);
+        // Paths with non-ASCII characters are printed as they are instead of octal-escaped and quoted
+        this.git = simpleGit(repoPath, { config: ['core.quotePath=false'] });
     }
 
     /**
-     * Get the diff for a specific commit
+     * Get the diff between two revisions (trees)
      */
-    async getCommitDiff(commitSha: string): Promise<string> {
+    async getDiff(baseRef: string, headRef: string): Promise<string> {
         try {
-            // Get diff between commit and its parent
-            const diff = await this.git.show([
-                commitSha,
+            // Compare the two trees directly so merge commits never produce a combined diff.
+            // `git diff <base>` compares with the working tree, `--cached` with the index.
+            const revisions = headRef === INDEX_REF
+                ? ['--cached', baseRef]
+                : headRef === WORKING_TREE_REF
+                    ? [baseRef]
+                    : [baseRef, headRef];
+
+            const diff = await this.git.diff([
+                ...revisions,
+                '--find-renames', // Report moved files as renames rather than a delete plus an add
                 '--unified=0', // No context lines
                 '--no-prefix', // Remove a/ b/ prefixes
             ]);
             return diff;
         } catch (error) {
-            throw new Error(`Failed to get diff for commit ${commitSha}: ${error}`);
+            throw new GitError(`Failed to get diff between ${baseRef} and ${headRef}: ${error}`, { cause: error });
         }
     }
 
     /**
-     * Get changed files with their modification types and line ranges
+     * Get changed files between two revisions with their modification types and line ranges
      */
-    async getChangedFiles(commitSha: string): Promise<ChangedFile[]> {
-        const diff = await this.getCommitDiff(commitSha);
-        return this.parseDiff(diff);
+    async getChangedFiles(baseRef: string, headRef: string): Promise<ChangedFile[]> {
+        const diff = await this.getDiff(baseRef, headRef);
+        const changedFiles = this.parseDiff(diff);
+
+        if (headRef === WORKING_TREE_REF) {
+            changedFiles.push(...await this.getUntrackedFiles());
+        }
+
+        return changedFiles;
     }
 
     /**
-     * Get file content at a specific commit
+     * Resolve HEAD, falling back to the empty tree in a repository without commits
      */
-    async getFileAtCommit(commitSha: string, filePath: string): Promise<string | null> {
+    async resolveHead(): Promise<string> {
         try {
-            const content = await this.git.show([`${commitSha}:${filePath}`]);
-            return content;
+            const output = await this.git.raw(['rev-parse', '--verify', 'HEAD']);
+            return output.trim();
+        } catch {
+            return EMPTY_TREE_SHA;
+        }
+    }
+
+    /**
+     * Resolve a revision to the SHA of its commit
+     */
+    async resolveCommit(ref: string): Promise<string> {
+        try {
+            const output = await this.git.raw(['rev-parse', '--verify', `${ref}^{commit}`]);
+            return output.trim();
         } catch (error) {
-            // File doesn't exist at this commit
-            return null;
+            throw new GitError(`Failed to resolve ${ref}: ${error}`, { cause: error });
+        }
+    }
+
+    /**
+     * List the files in the working tree (tracked and untracked, not ignored), relative to the repository,
+     * with their blob SHAs. Files whose content differs from the index map to null and must be hashed.
+     */
+    async listWorkingTreeFiles(): Promise<Map<string, string | null>> {
+        try {
+            const files = new Map<string, string | null>();
+
+            // Conflicted files (stage > 0) have no single blob
+            for (const { filePath, sha, stage } of await this.listIndexEntries()) {
+                files.set(filePath, stage === 0 ? sha : null);
+            }
+
+            for (const filePath of splitPaths(await this.git.raw(['diff', '--name-only', '-z']))) {
+                files.set(filePath, null);
+            }
+
+            for (const filePath of splitPaths(await this.git.raw(['ls-files', '--others', '--exclude-standard', '-z']))) {
+                files.set(filePath, null);
+            }
+
+            return files;
+        } catch (error) {
+            throw new GitError(`Failed to list files: ${error}`, { cause: error });
+        }
+    }
+
+    /**
+     * List the files of a commit's tree or of the index (INDEX_REF), relative to the repository,
+     * with their blob SHAs. Conflicted files in the index are listed with our side (stage 2).
+     */
+    async listFilesAtRevision(ref: string): Promise<Map<string, string>> {
+        const files = new Map<string, string>();
+
+        if (ref === EMPTY_TREE_SHA) {
+            return files;
+        }
+
+        try {
+            if (ref === INDEX_REF) {
+                for (const { filePath, sha, stage } of await this.listIndexEntries()) {
+                    if (stage === 0 || stage === 2) {
+                        files.set(filePath, sha);
+                    }
+                }
+                return files;
+            }
+
+            // `<mode> <type> <sha>\t<path>`; submodules are commits, not blobs
+            for (const entry of splitPaths(await this.git.raw(['ls-tree', '-r', '-z', '--full-tree', ref]))) {
+                const match = entry.match(/^\d+ blob ([0-9a-f]+)\t(.+)$/s);
+                if (match) {
+                    files.set(match[2], match[1]);
+                }
+            }
+
+            return files;
+        } catch (error) {
+            throw new GitError(`Failed to list files at ${ref}: ${error}`, { cause: error });
+        }
+    }
+
+    /**
+     * Index entries: `<mode> <sha> <stage>\t<path>`
+     */
+    private async listIndexEntries(): Promise<{ filePath: string; sha: string; stage: number }[]> {
+        const entries: { filePath: string; sha: string; stage: number }[] = [];
+
+        for (const entry of splitPaths(await this.git.raw(['ls-files', '--stage', '-z']))) {
+            const match = entry.match(/^\d+ ([0-9a-f]+) (\d)\t(.+)$/s);
+            if (match) {
+                entries.push({ filePath: match[3], sha: match[1], stage: Number(match[2]) });
+            }
+        }
+
+        return entries;
+    }
+
+    /**
+     * Read a blob by SHA
+     */
+    async readBlob(sha: string): Promise<string> {
+        try {
+            return await this.git.raw(['cat-file', 'blob', sha]);
+        } catch (error) {
+            throw new GitError(`Failed to read blob ${sha}: ${error}`, { cause: error });
+        }
+    }
+
+    /**
+     * Read a blob by SHA without yielding, for callers that must stay synchronous (module resolution)
+     */
+    readBlobSync(sha: string): string {
+        try {
+            return execFileSync('git', ['cat-file', 'blob', sha], {
+                cwd: this.repoPath,
+                encoding: 'utf-8',
+                maxBuffer: 64 * 1024 * 1024,
+                stdio: ['ignore', 'pipe', 'pipe'],
+            });
+        } catch (error) {
+            throw new GitError(`Failed to read blob ${sha}: ${error}`, { cause: error });
+        }
+    }
+
+    /**
+     * Get untracked (but not ignored) files as added files, since `git diff` does not report them
+     */
+    private async getUntrackedFiles(): Promise<ChangedFile[]> {
+        const untrackedPaths = splitPaths(await this.git.raw(['ls-files', '--others', '--exclude-standard', '-z']));
+        const changedFiles: ChangedFile[] = [];
+
+        for (const filePath of untrackedPaths) {
+            const content = await this.getFileAtCommit(WORKING_TREE_REF, filePath);
+            const lineCount = content === null ? 0 : content.split('\n').length;
+
+            const hunk: Hunk = {
+                oldStart: 0,
+                oldLines: 0,
+                newStart: 1,
+                newLines: lineCount,
+                lines: content === null ? [] : content.split('\n').map(line => '+' + line),
+            };
+
+            changedFiles.push({
+                path: filePath,
+                changeType: 'added',
+                hunks: lineCount > 0 ? [hunk] : [],
+                ...this.getChangedLines(lineCount > 0 ? [hunk] : []),
+            });
+        }
+
+        return changedFiles;
+    }
+
+    /**
+     * Get the parent SHAs of a commit, in order (first parent first)
+     */
+    async getParents(commitSha: string): Promise<string[]> {
+        try {
+            const output = await this.git.raw(['rev-list', '--parents', '-n', '1', commitSha]);
+            const [, ...parents] = output.trim().split(/\s+/);
+            return parents;
+        } catch (error) {
+            throw new GitError(`Failed to read parents of commit ${commitSha}: ${error}`, { cause: error });
+        }
+    }
+
+    /**
+     * Resolve the revision a commit should be compared against.
+     * Merge commits are compared against the selected mainline parent (1-based),
+     * and root commits against the empty tree.
+     */
+    async getCommitBase(commitSha: string, mainline: number = 1): Promise<string> {
+        const parents = await this.getParents(commitSha);
+
+        if (parents.length === 0) {
+            return EMPTY_TREE_SHA;
+        }
+
+        if (mainline < 1 || mainline > parents.length) {
+            throw new InvalidOptionError(
+                `Commit ${commitSha} has ${parents.length} parent(s); mainline ${mainline} is out of range`
+            );
+        }
+
+        return parents[mainline - 1];
+    }
+
+    /**
+     * Find the best common ancestor of two revisions
+     */
+    async getMergeBase(baseRef: string, headRef: string): Promise<string> {
+        try {
+            const output = await this.git.raw(['merge-base', baseRef, headRef]);
+            return output.trim();
+        } catch (error) {
+            throw new GitError(`Failed to find merge-base of ${baseRef} and ${headRef}: ${error}`, { cause: error });
+        }
+    }
+
+    /**
+     * List the commits reachable from headRef but not baseRef, oldest first.
+     * Only the first-parent chain is followed, so a merged branch is represented by its merge commit.
+     */
+    async getCommitsInRange(baseRef: string, headRef: string): Promise<string[]> {
+        try {
+            const output = await this.git.raw([
+                'rev-list',
+                '--reverse',
+                '--first-parent',
+                `${baseRef}..${headRef}`,
+            ]);
+            return output.split('\n').map(line => line.trim()).filter(Boolean);
+        } catch (error) {
+            throw new GitError(`Failed to list commits in range ${baseRef}..${headRef}: ${error}`, { cause: error });
         }
     }
 
     /**
-     * Get file content before a commit (parent commit)
+     * Count the commits reachable from headRef but not baseRef
      */
-    async getFileBeforeCommit(commitSha: string, filePath: string): Promise<string | null> {
+    async countCommits(baseRef: string, headRef: string): Promise<number> {
         try {
-            const content = await this.git.show([`${commitSha}^:${filePath}`]);
+            const output = await this.git.raw(['rev-list', '--count', `${baseRef}..${headRef}`]);
+            return Number(output.trim());
+        } catch (error) {
+            throw new GitError(`Failed to count commits in ${baseRef}..${headRef}: ${error}`, { cause: error });
+        }
+    }
+
+    /**
+     * First-parent history of a revision or `base..head` range, oldest first.
+     * `paths` keeps the commits touching them; `maxCount` keeps the most recent commits.
+     */
+    async getLog(revisions: string, paths: string[] = [], maxCount?: number): Promise<HistoryCommit[]> {
+        const args = ['log', '--first-parent', '--reverse', '--format=%H%x00%cI%x00%an%x00%s'];
+        if (maxCount !== undefined) {
+            args.push(`--max-count=${maxCount}`);
+        }
+        args.push(revisions, '--', ...paths);
+
+        try {
+            const output = await this.git.raw(args);
+            return output.split('\n').filter(Boolean).map(line => {
+                const [sha, date, author, subject] = line.split('\0');
+                return { sha, date, author, subject };
+            });
+        } catch (error) {
+            throw new GitError(`Failed to read the history of ${revisions}: ${error}`, { cause: error });
+        }
+    }
+
+    /**
+     * Get file content at a specific revision, the index or the working tree
+     */
+    async getFileAtCommit(ref: string, filePath: string): Promise<string | null> {
+        if (ref === EMPTY_TREE_SHA) {
+            return null;
+        }
+
+        if (ref === WORKING_TREE_REF) {
+            try {
+                return await fs.promises.readFile(path.join(this.repoPath, filePath), 'utf-8');
+            } catch {
+                return null;
+            }
+        }
+
+        try {
+            // `:<path>` addresses the staged version of a file
+            const object = ref === INDEX_REF ? `:${filePath}` : `${ref}:${filePath}`;
+            const content = await this.git.show([object]);
             return content;
         } catch (error) {
+            // File doesn't exist at this revision
             return null;
         }
     }
 
     /**
-     * Parse unified diff output to extract changed files and line ranges
+     * Parse unified diff output to extract changed files, their hunks and changed line numbers
      */
     private parseDiff(diff: string): ChangedFile[] {
         const changedFiles: ChangedFile[] = [];
         const lines = diff.split('\n');
 
         let currentFile: string | null = null;
-        let changeType: 'added' | 'modified' | 'deleted' = 'modified';
-        let addedLines: number[] = [];
-        let deletedLines: number[] = [];
+        let oldPath: string | undefined;
+        let changeType: ChangedFile['changeType'] = 'modified';
+        let hunks: Hunk[] = [];
+        let currentHunk: Hunk | null = null;
 
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i];
+        const saveFile = () => {
+            if (currentFile) {
+                changedFiles.push({
+                    path: currentFile,
+                    changeType,
+                    ...(oldPath !== undefined && { oldPath }),
+                    hunks,
+                    ...this.getChangedLines(hunks),
+                });
+            }
+        };
 
+        for (const line of lines) {
             // New file header
             if (line.startsWith('diff --git')) {
                 // Save previous file if exists
-                if (currentFile) {
-                    changedFiles.push({
-                        path: currentFile,
-                        changeType,
-                        addedLines: [...addedLines],
-                        deletedLines: [...deletedLines],
-                    });
-                }
+                saveFile();
 
                 // Reset for new file
-                addedLines = [];
-                deletedLines = [];
+                hunks = [];
+                currentHunk = null;
+                oldPath = undefined;
                 changeType = 'modified';
-                currentFile = null;
+                currentFile = this.parseDiffHeaderPath(line);
+                continue;
+            }
+
+            // Hunk header: @@ -old_start,old_count +new_start,new_count @@
+            if (line.startsWith('@@')) {
+                const hunkMatch = line.match(/@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+                if (hunkMatch) {
+                    currentHunk = {
+                        oldStart: parseInt(hunkMatch[1]),
+                        oldLines: hunkMatch[2] ? parseInt(hunkMatch[2]) : 1,
+                        newStart: parseInt(hunkMatch[3]),
+                        newLines: hunkMatch[4] ? parseInt(hunkMatch[4]) : 1,
+                        lines: [],
+                    };
+                    hunks.push(currentHunk);
+                }
+                continue;
+            }
+
+            // Inside a hunk every line is content, even a deleted line that starts with `--`
+            if (currentHunk) {
+                if (line.startsWith('+') || line.startsWith('-')) {
+                    currentHunk.lines.push(line);
+                }
+                continue;
+            }
+
+            // Binary files have no ---/+++ lines, so their change type comes from the mode lines
+            if (line.startsWith('new file mode')) {
+                changeType = 'added';
+            } else if (line.startsWith('deleted file mode')) {
+                changeType = 'deleted';
+            }
+
+            // Renames without content changes have no ---/+++ lines either
+            if (line.startsWith('rename from ')) {
+                changeType = 'renamed';
+                oldPath = unquotePath(line.slice('rename from '.length));
+            } else if (line.startsWith('rename to ')) {
+                currentFile = unquotePath(line.slice('rename to '.length));
             }
 
             // File path (--- and +++ lines)
-            if (line.startsWith('---')) {
-                const match = line.match(/^---\s+(.+)$/);
-                if (match && match[1] !== '/dev/null') {
-                    currentFile = match[1];
-                } else if (match && match[1] === '/dev/null') {
+            if (line.startsWith('--- ')) {
+                const filePath = parseFileLinePath(line.slice('--- '.length));
+                if (filePath !== '/dev/null' && changeType !== 'renamed') {
+                    currentFile = filePath;
+                } else if (filePath === '/dev/null') {
                     changeType = 'added';
                 }
             }
 
-            if (line.startsWith('+++')) {
-                const match = line.match(/^\+\+\+\s+(.+)$/);
-                if (match && match[1] !== '/dev/null') {
-                    currentFile = match[1];
-                } else if (match && match[1] === '/dev/null') {
+            if (line.startsWith('+++ ')) {
+                const filePath = parseFileLinePath(line.slice('+++ '.length));
+                if (filePath !== '/dev/null') {
+                    currentFile = filePath;
+                } else {
                     changeType = 'deleted';
                 }
             }
+        }
 
-            // Hunk header: @@ -old_start,old_count +new_start,new_count @@
-            if (line.startsWith('@@')) {
-                const hunkMatch = line.match(/@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
-                if (hunkMatch) {
-                    const oldStart = parseInt(hunkMatch[1]);
-                    const oldCount = hunkMatch[2] ? parseInt(hunkMatch[2]) : 1;
-                    const newStart = parseInt(hunkMatch[3]);
-                    const newCount = hunkMatch[4] ? parseInt(hunkMatch[4]) : 1;
-
-                    // Track deleted lines
-                    for (let j = 0; j < oldCount; j++) {
-                        deletedLines.push(oldStart + j);
-                    }
+        // Save last file
+        saveFile();
 
-                    // Track added lines
-                    for (let j = 0; j < newCount; j++) {
-                        addedLines.push(newStart + j);
-                    }
-                }
+        return changedFiles;
+    }
+
+    /**
+     * Expand hunks into the new-side line numbers they add and the old-side line numbers they delete
+     */
+    private getChangedLines(hunks: Hunk[]): { addedLines: number[]; deletedLines: number[] } {
+        const addedLines: number[] = [];
+        const deletedLines: number[] = [];
+
+        for (const hunk of hunks) {
+            for (let j = 0; j < hunk.oldLines; j++) {
+                deletedLines.push(hunk.oldStart + j);
+            }
+            for (let j = 0; j < hunk.newLines; j++) {
+                addedLines.push(hunk.newStart + j);
             }
         }
 
-        // Save last file
-        if (currentFile) {
-            changedFiles.push({
-                path: currentFile,
-                changeType,
-                addedLines: [...addedLines],
-                deletedLines: [...deletedLines],
-            });
+        return { addedLines, deletedLines };
+    }
+
+    /**
+     * Read the path from a `diff --git <path> <path>` header (no prefixes, both sides equal, possibly quoted).
+     * Returns null when the sides differ; the ---/+++ lines provide the path then.
+     */
+    private parseDiffHeaderPath(line: string): string | null {
+        const paths = line.slice('diff --git '.length);
+        const quoted = paths.match(/^("(?:[^"\\]|\\.)*") ("(?:[^"\\]|\\.)*")$/);
+        if (quoted) {
+            return quoted[1] === quoted[2] ? unquotePath(quoted[1]) : null;
         }
 
-        return changedFiles;
+        const half = (paths.length - 1) / 2;
+
+        if (Number.isInteger(half) && paths.slice(0, half) === paths.slice(half + 1)) {
+            return paths.slice(0, half);
+        }
+
+        return null;
     }
 
     /**
@@ -158,8 +570,7 @@ export class GitOperations {
      */
     async fileExists(filePath: string): Promise<boolean> {
         try {
-            const fs = await import('fs').then(m => m.promises);
-            await fs.access(path.join(this.repoPath, filePath));
+            await fs.promises.access(path.join(this.repoPath, filePath));
             return true;
         } catch {
             return false;
@@ -0,0 +1,32 @@
+/**
+ * Library entry point. Everything exported here is public API; the CLI is built on top of it.
+ */
+
+export { analyze, analyzeHistory, importCoverage, resolveTarget, resolveRepository } from './api';
+export { ImpactAnalyzer } from './analyzer/impactAnalyzer';
+export { buildHistoryReport } from './analyzer/history';
+export { buildCoverageMap } from './analyzer/coverageImport';
+export { readCoverageMap, COVERAGE_MAP_VERSION } from './analyzer/coverageMap';
+export { parseRangeSpec, EMPTY_TREE_SHA, INDEX_REF, WORKING_TREE_REF } from './git/operations';
+export { loadConfig, validateConfig, CONFIG_FILE_NAMES } from './config/configFile';
+export { DEFAULT_RULES } from './config/impactRules';
+export { FRAMEWORKS, createFrameworkAdapters, detectFrameworks } from './frameworks';
+export {
+    createReporter,
+    isOutputFormat,
+    OUTPUT_FORMATS,
+    createHistoryReporter,
+    isHistoryFormat,
+    HISTORY_FORMATS,
+    summarizeImpacts,
+    describeTarget,
+} from './reporters';
+export { selectRunnableTests } from './reporters/selection';
+export { ImpactAnalysisError, RepositoryError, GitError, ConfigError, InvalidOptionError, CoverageError } from './errors';
+
+export type { AnalyzeOptions, HistoryOptions, CoverageImportOptions } from './api';
+export type { HistoryTable } from './reporters/historyCsvReporter';
+export type { LoadedConfig } from './config/configFile';
+export type { ImpactSummary } from './reporters/summary';
+export type { SelectedTest } from './reporters/selection';
+export * from './types';
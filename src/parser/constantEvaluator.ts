@@ -0,0 +1,359 @@
+/**
+ * Static evaluation of constant expressions in test files: literals, template literals, string
+ * concatenation, `const` references (also imported ones) and loop variables bound by the caller
+ */
+
+import { Project, Node, SourceFile, SyntaxKind, VariableDeclarationKind } from 'ts-morph';
+import * as path from 'path';
+
+/**
+ * Read a module imported by a file: resolve the specifier and return the module's path and content
+ */
+export type ModuleLoader = (specifier: string, fromFile: string) => Promise<{ filePath: string; content: string } | null>;
+
+/**
+ * Values of loop variables in scope, by name
+ */
+export type Bindings = Map<string, unknown>;
+
+export interface EvaluatedTitle {
+    text: string;
+    exact: boolean; // false when part of the title is only known at runtime; those parts read `${expression}`
+}
+
+export type ConstantValue = { value: unknown };
+
+/**
+ * How deep `const` references are followed, which also stops cycles
+ */
+const MAX_DEPTH = 20;
+
+export class ConstantEvaluator {
+    private project: Project;
+    private loadModule?: ModuleLoader;
+    private modules = new Map<string, Promise<SourceFile | ConstantValue | null>>();
+    usedImports = false; // a value was read from another module, so the result depends on more than this file
+
+    constructor(project: Project, loadModule?: ModuleLoader) {
+        this.project = project;
+        this.loadModule = loadModule;
+    }
+
+    /**
+     * Evaluate a title expression; parts that cannot be evaluated are kept as `${expression}`
+     */
+    async evaluateTitle(node: Node, bindings: Bindings): Promise<EvaluatedTitle> {
+        const evaluated = await this.evaluate(node, bindings);
+        if (evaluated) {
+            return { text: this.toText(evaluated.value), exact: true };
+        }
+
+        if (Node.isTemplateExpression(node)) {
+            let text = node.getHead().getLiteralText();
+
+            for (const span of node.getTemplateSpans()) {
+                const value = await this.evaluate(span.getExpression(), bindings);
+                text += value ? this.toText(value.value) : `\${${span.getExpression().getText()}}`;
+                text += span.getLiteral().getLiteralText();
+            }
+
+            return { text, exact: false };
+        }
+
+        return { text: `\${${node.getText()}}`, exact: false };
+    }
+
+    /**
+     * Evaluate an expression, or return null if its value is not known statically
+     */
+    async evaluate(node: Node, bindings: Bindings = new Map(), depth = 0): Promise<ConstantValue | null> {
+        if (depth > MAX_DEPTH) {
+            return null;
+        }
+
+        const evaluate = (child: Node) => this.evaluate(child, bindings, depth + 1);
+
+        if (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node) || Node.isNumericLiteral(node)) {
+            return { value: node.getLiteralValue() };
+        }
+        if (Node.isTrueLiteral(node) || Node.isFalseLiteral(node)) {
+            return { value: node.getLiteralValue() };
+        }
+        if (Node.isNullLiteral(node)) {
+            return { value: null };
+        }
+
+        // Wrappers that do not change the value: (x), x as const, x satisfies T, x!
+        if (
+            Node.isParenthesizedExpression(node) || Node.isAsExpression(node) ||
+            Node.isSatisfiesExpression(node) || Node.isNonNullExpression(node) || Node.isTypeAssertion(node)
+        ) {
+            return evaluate(node.getExpression());
+        }
+
+        if (Node.isPrefixUnaryExpression(node) && node.getOperatorToken() === SyntaxKind.MinusToken) {
+            const operand = await evaluate(node.getOperand());
+            return operand && typeof operand.value === 'number' ? { value: -operand.value } : null;
+        }
+
+        if (Node.isTemplateExpression(node)) {
+            let text = node.getHead().getLiteralText();
+
+            for (const span of node.getTemplateSpans()) {
+                const value = await evaluate(span.getExpression());
+                if (!value || !this.isPrimitive(value.value)) {
+                    return null;
+                }
+                text += String(value.value) + span.getLiteral().getLiteralText();
+            }
+
+            return { value: text };
+        }
+
+        if (Node.isBinaryExpression(node) && node.getOperatorToken().getKind() === SyntaxKind.PlusToken) {
+            const left = await evaluate(node.getLeft());
+            const right = left && await evaluate(node.getRight());
+            if (!left || !right || !this.isPrimitive(left.value) || !this.isPrimitive(right.value)) {
+                return null;
+            }
+
+            return {
+                value: typeof left.value === 'number' && typeof right.value === 'number'
+                    ? left.value + right.value
+                    : String(left.value) + String(right.value),
+            };
+        }
+
+        if (Node.isArrayLiteralExpression(node)) {
+            const values: unknown[] = [];
+
+            for (const element of node.getElements()) {
+                if (Node.isSpreadElement(element)) {
+                    const spread = await evaluate(element.getExpression());
+                    if (!spread || !Array.isArray(spread.value)) return null;
+                    values.push(...spread.value);
+                } else {
+                    const value = await evaluate(element);
+                    if (!value) return null;
+                    values.push(value.value);
+                }
+            }
+
+            return { value: values };
+        }
+
+        if (Node.isObjectLiteralExpression(node)) {
+            const object: Record<string, unknown> = {};
+
+            for (const property of node.getProperties()) {
+                if (Node.isPropertyAssignment(property)) {
+                    const nameNode = property.getNameNode();
+                    const name = Node.isStringLiteral(nameNode) || Node.isNumericLiteral(nameNode)
+                        ? String(nameNode.getLiteralValue())
+                        : Node.isIdentifier(nameNode) ? nameNode.getText() : null;
+                    const value = name === null ? null : await evaluate(property.getInitializerOrThrow());
+                    if (!value) return null;
+                    object[name!] = value.value;
+                } else if (Node.isShorthandPropertyAssignment(property)) {
+                    const value = await evaluate(property.getNameNode());
+                    if (!value) return null;
+                    object[property.getName()] = value.value;
+                } else if (Node.isSpreadAssignment(property)) {
+                    const spread = await evaluate(property.getExpression());
+                    if (!spread || !this.isObject(spread.value)) return null;
+                    Object.assign(object, spread.value);
+                } else {
+                    return null;
+                }
+            }
+
+            return { value: object };
+        }
+
+        if (Node.isIdentifier(node)) {
+            return this.evaluateIdentifier(node, bindings, depth);
+        }
+
+        if (Node.isPropertyAccessExpression(node) || Node.isElementAccessExpression(node)) {
+            const target = await evaluate(node.getExpression());
+            const key = Node.isPropertyAccessExpression(node)
+                ? { value: node.getName() }
+                : await evaluate(node.getArgumentExpressionOrThrow());
+
+            if (!target || !key || target.value === null || typeof target.value !== 'object') {
+                return null;
+            }
+            if (Array.isArray(target.value) && key.value === 'length') {
+                return { value: target.value.length };
+            }
+
+            const property = String(key.value);
+            return Object.prototype.hasOwnProperty.call(target.value, property)
+                ? { value: (target.value as Record<string, unknown>)[property] }
+                : null;
+        }
+
+        // Object.keys/values/entries over a constant object, as used to drive data-driven loops
+        if (Node.isCallExpression(node)) {
+            const callee = node.getExpression().getText();
+            const [arg] = node.getArguments();
+            const object = arg && ['Object.keys', 'Object.values', 'Object.entries'].includes(callee)
+                ? await evaluate(arg)
+                : null;
+
+            if (!object || !this.isObject(object.value)) {
+                return null;
+            }
+
+            return {
+                value: callee === 'Object.keys'
+                    ? Object.keys(object.value)
+                    : callee === 'Object.values' ? Object.values(object.value) : Object.entries(object.value),
+            };
+        }
+
+        return null;
+    }
+
+    /**
+     * Loop variables first, then `const` declarations in enclosing scopes, then imports
+     */
+    private async evaluateIdentifier(node: Node, bindings: Bindings, depth: number): Promise<ConstantValue | null> {
+        const name = node.getText();
+
+        if (bindings.has(name)) {
+            return { value: bindings.get(name) };
+        }
+        if (name === 'undefined') {
+            return { value: undefined };
+        }
+
+        const initializer = this.findConstInitializer(node, name);
+        if (initializer) {
+            // Declarations are evaluated without the loop bindings of the reference
+            return this.evaluate(initializer, new Map(), depth + 1);
+        }
+
+        return this.evaluateImport(node.getSourceFile(), name, depth);
+    }
+
+    /**
+     * Find `const name = ...` in the blocks enclosing a reference
+     */
+    private findConstInitializer(node: Node, name: string): Node | undefined {
+        for (const scope of node.getAncestors()) {
+            if (!Node.isBlock(scope) && !Node.isSourceFile(scope) && !Node.isModuleBlock(scope)) {
+                continue;
+            }
+
+            const initializer = this.findConstInStatements(scope.getStatements(), name);
+            if (initializer) {
+                return initializer;
+            }
+        }
+
+        return undefined;
+    }
+
+    private findConstInStatements(statements: Node[], name: string): Node | undefined {
+        for (const statement of statements) {
+            if (!Node.isVariableStatement(statement) || statement.getDeclarationKind() !== VariableDeclarationKind.Const) {
+                continue;
+            }
+
+            const declaration = statement.getDeclarations().find(d => Node.isIdentifier(d.getNameNode()) && d.getName() === name);
+            if (declaration) {
+                return declaration.getInitializer();
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Follow `import { name } from './data'` (or a default import) to an exported constant of the module
+     */
+    private async evaluateImport(sourceFile: SourceFile, name: string, depth: number): Promise<ConstantValue | null> {
+        for (const importDecl of sourceFile.getImportDeclarations()) {
+            const named = importDecl.getNamedImports().find(n => (n.getAliasNode()?.getText() ?? n.getName()) === name);
+            const isDefault = importDecl.getDefaultImport()?.getText() === name;
+            if (!named && !isDefault) {
+                continue;
+            }
+
+            const module = await this.getModule(importDecl.getModuleSpecifierValue(), sourceFile.getFilePath());
+            if (!module) {
+                return null;
+            }
+
+            this.usedImports = true;
+
+            // JSON modules are values already
+            if (!(module instanceof SourceFile)) {
+                return isDefault ? module : null;
+            }
+
+            const exported = isDefault
+                ? module.getExportAssignment(assignment => !assignment.isExportEquals())?.getExpression()
+                : this.findConstInStatements(
+                    module.getVariableStatements().filter(statement => statement.isExported()),
+                    named!.getName()
+                );
+
+            return exported ? this.evaluate(exported, new Map(), depth + 1) : null;
+        }
+
+        return null;
+    }
+
+    private getModule(specifier: string, fromFile: string): Promise<SourceFile | ConstantValue | null> {
+        const key = `${path.dirname(fromFile)}\0${specifier}`;
+
+        if (!this.modules.has(key)) {
+            this.modules.set(key, this.readModule(specifier, fromFile));
+        }
+        return this.modules.get(key)!;
+    }
+
+    private async readModule(specifier: string, fromFile: string): Promise<SourceFile | ConstantValue | null> {
+        const module = this.loadModule ? await this.loadModule(specifier, fromFile) : null;
+        if (!module) {
+            return null;
+        }
+
+        if (module.filePath.endsWith('.json')) {
+            try {
+                return { value: JSON.parse(module.content) };
+            } catch {
+                return null;
+            }
+        }
+
+        return this.project.createSourceFile(module.filePath, module.content, { overwrite: true });
+    }
+
+    /**
+     * Forget the modules loaded while evaluating
+     */
+    async dispose(): Promise<void> {
+        for (const module of this.modules.values()) {
+            const loaded = await module;
+            if (loaded instanceof SourceFile) {
+                loaded.forget();
+            }
+        }
+        this.modules.clear();
+    }
+
+    private toText(value: unknown): string {
+        return this.isPrimitive(value) ? String(value) : JSON.stringify(value);
+    }
+
+    private isPrimitive(value: unknown): boolean {
+        return value === null || value === undefined || ['string', 'number', 'boolean'].includes(typeof value);
+    }
+
+    private isObject(value: unknown): value is Record<string, unknown> {
+        return value !== null && typeof value === 'object' && !Array.isArray(value);
+    }
+}
@@ -0,0 +1,100 @@
+/**
+ * Playwright fixtures: definitions in `test.extend({...})` calls and the fixtures
+ * that tests, hooks and other fixtures request
+ */
+
+import { Node, CallExpression, SyntaxKind } from 'ts-morph';
+
+export interface FixtureDefinition {
+    name: string;
+    node: Node; // property or method of the object literal passed to `extend`
+    auto: boolean; // `[fn, { auto: true }]` fixtures run for every test, requested or not
+}
+
+export interface FixtureRequest {
+    name: string;
+    node: Node; // binding element in the requesting function's first parameter
+}
+
+/**
+ * Return the call if a node is `<expr>.extend({...})`, the shape of a Playwright fixture extension
+ */
+export function getExtendCall(node: Node | undefined): CallExpression | null {
+    if (!node || !Node.isCallExpression(node)) {
+        return null;
+    }
+
+    const callee = node.getExpression();
+    const [fixturesArg] = node.getArguments();
+
+    if (!Node.isPropertyAccessExpression(callee) || callee.getName() !== 'extend' ||
+        !fixturesArg || !Node.isObjectLiteralExpression(fixturesArg)) {
+        return null;
+    }
+
+    return node;
+}
+
+/**
+ * List the fixtures defined by an extend call.
+ * Dependencies between fixtures are the fixtures their functions request (see getRequestedFixtures).
+ */
+export function getFixtureDefinitions(extendCall: CallExpression): FixtureDefinition[] {
+    const fixturesArg = extendCall.getArguments()[0];
+    if (!Node.isObjectLiteralExpression(fixturesArg)) {
+        return [];
+    }
+
+    const definitions: FixtureDefinition[] = [];
+
+    for (const property of fixturesArg.getProperties()) {
+        if (Node.isMethodDeclaration(property)) {
+            definitions.push({ name: property.getName(), node: property, auto: false });
+            continue;
+        }
+
+        if (!Node.isPropertyAssignment(property)) {
+            continue;
+        }
+
+        // Either a fixture function, or a `[value, options]` tuple
+        const value = property.getInitializer();
+        let auto = false;
+
+        if (value && Node.isArrayLiteralExpression(value)) {
+            const options = value.getElements()[1];
+            auto = !!options && Node.isObjectLiteralExpression(options) && options.getProperties().some(option =>
+                Node.isPropertyAssignment(option) && option.getName() === 'auto' &&
+                option.getInitializer()?.getKind() === SyntaxKind.TrueKeyword
+            );
+        }
+
+        definitions.push({ name: property.getName(), node: property, auto });
+    }
+
+    return definitions;
+}
+
+/**
+ * Find fixture requests below a node: names destructured from the first parameter of a function,
+ * as in `async ({ page, loginPage }) => ...`
+ */
+export function getRequestedFixtures(root: Node): FixtureRequest[] {
+    const requests: FixtureRequest[] = [];
+
+    for (const pattern of root.getDescendantsOfKind(SyntaxKind.ObjectBindingPattern)) {
+        const parameter = pattern.getParent();
+        const fn = parameter?.getParent();
+        if (!Node.isParameterDeclaration(parameter) || !Node.isParametered(fn) || fn.getParameters()[0] !== parameter) {
+            continue;
+        }
+
+        for (const element of pattern.getElements()) {
+            const name = element.getPropertyNameNode()?.getText() ?? element.getName();
+            requests.push({ name, node: element });
+        }
+    }
+
+    return requests;
+}
+
@@ -2,56 +2,459 @@
  * Import tracker for finding dependencies and usages
  */
 
-import { Project, SyntaxKind, SourceFile } from 'ts-morph';
+import { Project, SyntaxKind, SourceFile, Node, VariableDeclaration } from 'ts-morph';
 import * as path from 'path';
-import * as fs from 'fs';
+import { ModuleResolver } from './moduleResolver';
+import { TestFileMatcher } from '../config/testFileMatcher';
+import { AnalysisCache } from '../cache/analysisCache';
+import { FileSource, WorkingTreeSource } from '../git/fileSource';
+import { GitOperations } from '../git/operations';
+import { AnalyzerOptions } from '../types';
+import { ChangedSymbols, SymbolAnalyzer, SymbolSeeds, emptySymbolSeeds, hasChangedSymbols } from './symbolAnalyzer';
+
+export interface DependentTestFile {
+    testFile: string; // absolute path of the spec file
+    importChain: string[]; // absolute paths from the changed file to the spec file, both included
+}
+
+export interface ImportBinding {
+    importedName: string; // name exported by the target module, 'default', or '*' for namespaces and `export *`
+    localName: string | null; // local binding or re-exported name; null for side-effect imports
+    isReExport: boolean;
+}
 
 export class ImportTracker {
+    readonly revision: string; // revision whose files are analyzed
     private project: Project;
     private repoPath: string;
+    private symbolAnalyzer: SymbolAnalyzer;
+    private moduleResolver: ModuleResolver | null = null;
+    private testFiles: TestFileMatcher;
+    private sourceRoots: string[];
+    private paths: Record<string, string[]>;
+    private cache: AnalysisCache;
+    private source: FileSource;
+    private reverseDependencies: Map<string, Set<string>> | null = null;
+    private sourceFiles: Promise<Map<string, string>> | null = null;
 
-    constructor(repoPath: string) {
+    /**
+     * @param source the revision whose files are analyzed (default: the working tree)
+     */
+    constructor(
+        repoPath: string,
+        testFiles: TestFileMatcher,
+        options: AnalyzerOptions = {},
+        cache: AnalysisCache = new AnalysisCache(null),
+        source: FileSource = new WorkingTreeSource(new GitOperations(repoPath), repoPath)
+    ) {
         this.repoPath = repoPath;
+        this.testFiles = testFiles;
+        this.cache = cache;
+        this.source = source;
+        this.revision = source.revision;
+        this.paths = options.paths ?? {};
+        this.sourceRoots = (options.sourceRoots ?? ['.']).map(root => path.resolve(repoPath, root));
         this.project = new Project({
             skipAddingFilesFromTsConfig: true,
+            compilerOptions: { allowJs: true },
         });
+        this.symbolAnalyzer = new SymbolAnalyzer();
+    }
+
+    /**
+     * Read a file of the analyzed revision by absolute path
+     */
+    async readFile(filePath: string): Promise<string | null> {
+        return this.source.readFile(this.toRelative(filePath));
+    }
+
+    /**
+     * Read the module an import refers to at this revision, so constants it exports can be evaluated.
+     * Returns null for external packages and for files that do not exist.
+     */
+    async loadModule(specifier: string, fromFile: string): Promise<{ filePath: string; content: string } | null> {
+        // JSON modules are only resolved by TypeScript with resolveJsonModule, so relative ones are taken as written
+        const resolved = specifier.startsWith('.') && specifier.endsWith('.json')
+            ? path.resolve(path.dirname(fromFile), specifier)
+            : await this.resolveImportPath(fromFile, specifier);
+
+        const content = path.isAbsolute(resolved) ? await this.readFile(resolved) : null;
+        return content === null ? null : { filePath: resolved, content };
+    }
+
+    /**
+     * Propagate changed symbols of a file through everything that imports it, transitively.
+     * Returns, for each spec file reached, the local names and members that refer to changed code.
+     */
+    async findSymbolDependents(changedPath: string, changed: ChangedSymbols): Promise<Map<string, SymbolSeeds>> {
+        const graph = await this.getReverseDependencies();
+        const start = this.normalizePath(changedPath);
+
+        const symbolsByFile = new Map<string, ChangedSymbols>([[start, changed]]);
+        const seedsByFile = new Map<string, SymbolSeeds>();
+        const queue = [start];
+
+        // Worklist over the (possibly cyclic) graph; a file is revisited only when its changed symbols grow
+        while (queue.length > 0) {
+            const file = queue.shift()!;
+            const fileSymbols = symbolsByFile.get(file)!;
+
+            for (const importer of graph.get(file) ?? []) {
+                const seeds = seedsByFile.get(importer) ?? emptySymbolSeeds();
+                seedsByFile.set(importer, seeds);
+
+                const bindings = await this.getImportBindings(importer, file);
+                if (!this.addSeeds(seeds, bindings, fileSymbols) || importer === start) {
+                    continue;
+                }
+
+                const content = await this.readFile(importer) ?? '';
+                const importerSymbols = this.symbolAnalyzer.getDependentSymbols(content, seeds, importer);
+                const previous = symbolsByFile.get(importer);
+
+                if (hasChangedSymbols(importerSymbols) && !this.sameSymbols(previous, importerSymbols)) {
+                    symbolsByFile.set(importer, importerSymbols);
+                    queue.push(importer);
+                }
+            }
+        }
+
+        const specSeeds = new Map<string, SymbolSeeds>();
+        for (const [file, seeds] of seedsByFile) {
+            if (this.isSpecFile(file)) {
+                specSeeds.set(file, seeds);
+            }
+        }
+
+        return specSeeds;
     }
 
     /**
-     * Find all test files that import a given helper file
+     * Find spec files that mention a file by path in a string literal (data files, uploads, fixtures).
+     * For each, returns the lines of the references, or null when the whole spec is affected.
+     * Imported files (`import users from './users.json'`) are traced to the usages of the import.
      */
-    async findTestFilesImporting(helperPath: string): Promise<string[]> {
-        const testFiles: string[] = [];
-        const specFiles = await this.findAllSpecFiles();
+    async findFileReferences(filePath: string): Promise<{ testFile: string; lines: number[] | null }[]> {
+        const target = this.normalizePath(filePath);
+        const results: { testFile: string; lines: number[] | null }[] = [];
+
+        for (const testFile of await this.findAllTestFiles()) {
+            let lines: number[] | null = [];
 
-        for (const specFile of specFiles) {
-            const imports = await this.extractImports(specFile);
+            try {
+                const sourceFile = await this.parseFile(testFile);
+                const seeds = emptySymbolSeeds();
+                const literals = [
+                    ...sourceFile.getDescendantsOfKind(SyntaxKind.StringLiteral),
+                    ...sourceFile.getDescendantsOfKind(SyntaxKind.NoSubstitutionTemplateLiteral),
+                ];
 
-            // Normalize paths for comparison
-            const normalizedHelperPath = this.normalizePath(helperPath);
+                for (const literal of literals) {
+                    if (!this.literalReferencesFile(literal.getLiteralValue(), testFile, target)) {
+                        continue;
+                    }
 
-            for (const importPath of imports) {
-                const resolvedImport = this.resolveImportPath(specFile, importPath);
-                const normalizedImport = this.normalizePath(resolvedImport);
+                    const importDecl = literal.getParentIfKind(SyntaxKind.ImportDeclaration);
+                    if (importDecl) {
+                        const localNames = [
+                            importDecl.getDefaultImport()?.getText(),
+                            importDecl.getNamespaceImport()?.getText(),
+                            ...importDecl.getNamedImports().map(n => n.getAliasNode()?.getText() ?? n.getName()),
+                        ].filter((name): name is string => !!name);
 
-                if (normalizedImport === normalizedHelperPath) {
-                    testFiles.push(specFile);
-                    break;
+                        localNames.forEach(name => seeds.locals.add(name));
+                        seeds.all = seeds.all || localNames.length === 0;
+                    } else {
+                        lines.push(literal.getStartLineNumber());
+                    }
+                }
+
+                if (seeds.all) {
+                    lines = null;
+                } else if (seeds.locals.size > 0) {
+                    const importLines = this.symbolAnalyzer.findReferenceLines(sourceFile.getFullText(), seeds, testFile);
+                    lines = importLines === null ? null : [...lines, ...importLines];
                 }
+
+                sourceFile.forget();
+            } catch (error) {
+                // Ignore files that can't be parsed
+                continue;
+            }
+
+            if (lines === null || lines.length > 0) {
+                results.push({ testFile, lines });
             }
         }
 
-        return testFiles;
+        return results;
     }
 
     /**
-     * Extract all import paths from a TypeScript file
+     * Check if a string literal in a spec refers to a file: relative to the spec, relative to the
+     * repository root, as a trailing path segment, or by file name
      */
-    private async extractImports(filePath: string): Promise<string[]> {
+    private literalReferencesFile(literal: string, fromFile: string, target: string): boolean {
+        if (!literal || literal.includes('\n')) {
+            return false;
+        }
+
+        if (
+            path.resolve(path.dirname(fromFile), literal) === target ||
+            path.resolve(this.repoPath, literal) === target
+        ) {
+            return true;
+        }
+
+        const normalized = literal.replace(/\\/g, '/').replace(/^\.\//, '');
+        const relativeTarget = path.relative(this.repoPath, target).split(path.sep).join('/');
+
+        return relativeTarget === normalized ||
+            relativeTarget.endsWith('/' + normalized) ||
+            path.posix.basename(relativeTarget) === normalized;
+    }
+
+    /**
+     * Get the bindings through which one file imports or re-exports another
+     */
+    async getImportBindings(fromFile: string, targetFile: string): Promise<ImportBinding[]> {
+        const bindings: ImportBinding[] = [];
+        const target = this.normalizePath(targetFile);
+        const resolvesToTarget = async (specifier: string) =>
+            this.normalizePath(await this.resolveImportPath(fromFile, specifier)) === target;
+
+        try {
+            const sourceFile = await this.parseFile(fromFile);
+
+            for (const importDecl of sourceFile.getImportDeclarations()) {
+                if (!(await resolvesToTarget(importDecl.getModuleSpecifierValue()))) {
+                    continue;
+                }
+
+                const defaultImport = importDecl.getDefaultImport();
+                const namespaceImport = importDecl.getNamespaceImport();
+                const namedImports = importDecl.getNamedImports();
+
+                if (defaultImport) {
+                    bindings.push({ importedName: 'default', localName: defaultImport.getText(), isReExport: false });
+                }
+                if (namespaceImport) {
+                    bindings.push({ importedName: '*', localName: namespaceImport.getText(), isReExport: false });
+                }
+                for (const named of namedImports) {
+                    const localName = named.getAliasNode()?.getText() ?? named.getName();
+                    bindings.push({ importedName: named.getName(), localName, isReExport: false });
+                }
+                if (!defaultImport && !namespaceImport && namedImports.length === 0) {
+                    bindings.push({ importedName: '*', localName: null, isReExport: false });
+                }
+            }
+
+            for (const { specifier, declaration } of this.findRequireCalls(sourceFile)) {
+                if (!(await resolvesToTarget(specifier))) {
+                    continue;
+                }
+
+                // `const { a, b: c } = require(...)` binds names; anything else binds the whole module
+                const nameNode = declaration?.getNameNode();
+                if (nameNode && Node.isObjectBindingPattern(nameNode)) {
+                    for (const element of nameNode.getElements()) {
+                        const importedName = element.getPropertyNameNode()?.getText() ?? element.getName();
+                        bindings.push({ importedName, localName: element.getName(), isReExport: false });
+                    }
+                } else if (nameNode && Node.isIdentifier(nameNode)) {
+                    bindings.push({ importedName: '*', localName: nameNode.getText(), isReExport: false });
+                } else {
+                    bindings.push({ importedName: '*', localName: null, isReExport: false });
+                }
+            }
+
+            for (const exportDecl of sourceFile.getExportDeclarations()) {
+                const moduleSpecifier = exportDecl.getModuleSpecifierValue();
+                if (!moduleSpecifier || !(await resolvesToTarget(moduleSpecifier))) {
+                    continue;
+                }
+
+                const namedExports = exportDecl.getNamedExports();
+                if (namedExports.length === 0) {
+                    bindings.push({ importedName: '*', localName: '*', isReExport: true });
+                }
+                for (const named of namedExports) {
+                    const exportedName = named.getAliasNode()?.getText() ?? named.getName();
+                    bindings.push({ importedName: named.getName(), localName: exportedName, isReExport: true });
+                }
+            }
+
+            sourceFile.forget();
+        } catch (error) {
+            // Ignore files that can't be parsed
+        }
+
+        return bindings;
+    }
+
+    /**
+     * Translate a dependency's changed symbols into seeds for the importing file.
+     * Returns true if the seeds grew.
+     */
+    private addSeeds(seeds: SymbolSeeds, bindings: ImportBinding[], changed: ChangedSymbols): boolean {
+        const sizeOf = (s: SymbolSeeds) => s.locals.size + s.members.size + s.fixtures.size + s.reExports.size;
+        const sizeBefore = sizeOf(seeds);
+        const allBefore = seeds.all;
+
+        // Instances of changed classes can flow anywhere, so changed members travel along with them;
+        // likewise changed fixtures travel with the test objects that carry them
+        changed.members.forEach(member => seeds.members.add(member));
+        changed.fixtures.forEach(fixture => seeds.fixtures.add(fixture));
+
+        for (const binding of bindings) {
+            const isChanged = changed.all || (binding.importedName === '*'
+                ? changed.exports.size > 0
+                : changed.exports.has(binding.importedName));
+
+            if (binding.localName === null) {
+                // Side-effect import: the whole importing file is affected by any change
+                seeds.all = seeds.all || changed.all || changed.exports.size > 0;
+            } else if (binding.isReExport && binding.localName === '*') {
+                changed.exports.forEach(name => {
+                    if (name !== 'default') seeds.reExports.add(name);
+                });
+                seeds.all = seeds.all || changed.all;
+            } else if (isChanged && binding.isReExport) {
+                seeds.reExports.add(binding.localName);
+            } else if (isChanged) {
+                seeds.locals.add(binding.localName);
+            }
+        }
+
+        return seeds.all !== allBefore || sizeOf(seeds) !== sizeBefore;
+    }
+
+    private sameSymbols(a: ChangedSymbols | undefined, b: ChangedSymbols): boolean {
+        return a !== undefined &&
+            a.all === b.all &&
+            a.exports.size === b.exports.size &&
+            a.members.size === b.members.size &&
+            a.fixtures.size === b.fixtures.size;
+    }
+
+    /**
+     * Find all test files that depend on a given file, directly or through other modules.
+     * Each result carries the shortest import chain that explains the dependency.
+     */
+    async findDependentTestFiles(changedPath: string): Promise<DependentTestFile[]> {
+        const graph = await this.getReverseDependencies();
+        const start = this.normalizePath(changedPath);
+        const results: DependentTestFile[] = [];
+
+        // Breadth-first walk over importers; the visited map doubles as cycle protection
+        const previous = new Map<string, string | null>([[start, null]]);
+        const queue = [start];
+
+        while (queue.length > 0) {
+            const current = queue.shift()!;
+
+            if (current !== start && this.isSpecFile(current)) {
+                results.push({ testFile: current, importChain: this.buildChain(previous, current) });
+            }
+
+            for (const importer of graph.get(current) ?? []) {
+                if (!previous.has(importer)) {
+                    previous.set(importer, current);
+                    queue.push(importer);
+                }
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Build (once) the map from each source file to the files that import it.
+     * The graph is reused from the cache when no source file, manifest or resolution option changed.
+     */
+    private async getReverseDependencies(): Promise<Map<string, Set<string>>> {
+        if (this.reverseDependencies) {
+            return this.reverseDependencies;
+        }
+
+        const hashes = await this.getSourceFiles();
+        const fingerprint = await this.getGraphFingerprint(hashes);
+        const cached = this.cache.getGraph(fingerprint);
+        const graph = new Map<string, Set<string>>();
+
+        if (cached) {
+            for (const [file, importers] of Object.entries(cached)) {
+                graph.set(this.normalizePath(file), new Set(importers.map(importer => this.normalizePath(importer))));
+            }
+        } else {
+            for (const [sourceFile, sha] of hashes) {
+                const imports = await this.extractImports(sourceFile, sha);
+
+                for (const importPath of imports) {
+                    const resolvedImport = this.normalizePath(await this.resolveImportPath(sourceFile, importPath));
+
+                    const importers = graph.get(resolvedImport) ?? new Set<string>();
+                    importers.add(this.normalizePath(sourceFile));
+                    graph.set(resolvedImport, importers);
+                }
+            }
+
+            const edges = Object.fromEntries([...graph].map(([file, importers]) => [
+                this.toRelative(file),
+                [...importers].map(importer => this.toRelative(importer)),
+            ]));
+            this.cache.setGraph(fingerprint, edges);
+        }
+
+        this.reverseDependencies = graph;
+        return graph;
+    }
+
+    /**
+     * Everything module resolution depends on: the source files and their contents, the files that exist
+     * (for extension and index lookups), JSON files (tsconfig chains, package.json manifests) and the
+     * configured aliases
+     */
+    private async getGraphFingerprint(hashes: Map<string, string>): Promise<string> {
+        const inputs = [JSON.stringify(this.paths), ...this.getScanRoots().map(root => this.toRelative(root))];
+
+        for (const [file, sha] of await this.source.listFiles()) {
+            const isInput = hashes.has(this.normalizePath(file)) || path.extname(file) === '.json';
+            inputs.push(isInput ? `${file}:${sha}` : file);
+        }
+
+        return AnalysisCache.fingerprint(inputs.sort());
+    }
+
+    /**
+     * Reconstruct the import chain from the start of the walk to a file
+     */
+    private buildChain(previous: Map<string, string | null>, file: string): string[] {
+        const chain: string[] = [];
+        let current: string | null = file;
+
+        while (current) {
+            chain.unshift(current);
+            current = previous.get(current) ?? null;
+        }
+
+        return chain;
+    }
+
+    /**
+     * Extract all import paths from a TypeScript file, cached by blob SHA
+     */
+    private async extractImports(filePath: string, sha: string): Promise<string[]> {
+        const cached = this.cache.getImports(sha);
+        if (cached) {
+            return cached;
+        }
+
         const imports: string[] = [];
 
         try {
-            const sourceFile = this.project.addSourceFileAtPath(filePath);
+            const sourceFile = await this.parseFile(filePath);
 
             // Get import declarations
             const importDeclarations = sourceFile.getImportDeclarations();
@@ -61,65 +464,135 @@ export class ImportTracker {
                 imports.push(moduleSpecifier);
             }
 
+            // Re-exports (`export { x } from './y'`, `export * from './y'`) are dependencies too
+            for (const exportDecl of sourceFile.getExportDeclarations()) {
+                const moduleSpecifier = exportDecl.getModuleSpecifierValue();
+                if (moduleSpecifier) {
+                    imports.push(moduleSpecifier);
+                }
+            }
+
+            // CommonJS `require('./y')` in JavaScript sources
+            for (const requireCall of this.findRequireCalls(sourceFile)) {
+                imports.push(requireCall.specifier);
+            }
+
             sourceFile.forget();
         } catch (error) {
             // Ignore files that can't be parsed
         }
 
+        this.cache.setImports(sha, imports);
         return imports;
     }
 
     /**
-     * Find all .spec.ts files in the repository
+     * Find `require('...')` calls with a literal specifier, and the variable they initialize if any
      */
-    private async findAllSpecFiles(): Promise<string[]> {
-        const specFiles: string[] = [];
+    private findRequireCalls(sourceFile: SourceFile): { specifier: string; declaration?: VariableDeclaration }[] {
+        const calls: { specifier: string; declaration?: VariableDeclaration }[] = [];
 
-        const findFiles = (dir: string) => {
-            const files = fs.readdirSync(dir);
+        for (const callExpr of sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+            const [specifierArg] = callExpr.getArguments();
+            if (callExpr.getExpression().getText() !== 'require' || !specifierArg || !Node.isStringLiteral(specifierArg)) {
+                continue;
+            }
 
-            for (const file of files) {
-                const fullPath = path.join(dir, file);
-                const stat = fs.statSync(fullPath);
+            const parent = callExpr.getParent();
+            calls.push({
+                specifier: specifierArg.getLiteralValue(),
+                declaration: parent && Node.isVariableDeclaration(parent) ? parent : undefined,
+            });
+        }
 
-                if (stat.isDirectory()) {
-                    // Skip node_modules and hidden directories
-                    if (!file.startsWith('.') && file !== 'node_modules') {
-                        findFiles(fullPath);
-                    }
-                } else if (file.endsWith('.spec.ts')) {
-                    specFiles.push(fullPath);
-                }
-            }
-        };
+        return calls;
+    }
 
-        findFiles(this.repoPath);
-        return specFiles;
+    /**
+     * Find all test files in the repository
+     */
+    async findAllTestFiles(): Promise<string[]> {
+        const sourceFiles = await this.getSourceFiles();
+        return [...sourceFiles.keys()].filter(file => this.isSpecFile(file));
     }
 
     /**
-     * Resolve a relative import path to an absolute path
+     * Find (once) all TypeScript and JavaScript source files under the source roots and test directories,
+     * by absolute path, with their blob SHAs
      */
-    private resolveImportPath(fromFile: string, importPath: string): string {
-        if (importPath.startsWith('.')) {
-            // Relative import
-            const fromDir = path.dirname(fromFile);
-            let resolved = path.resolve(fromDir, importPath);
+    private getSourceFiles(): Promise<Map<string, string>> {
+        if (!this.sourceFiles) {
+            this.sourceFiles = this.findAllSourceFiles();
+        }
+        return this.sourceFiles;
+    }
 
-            // Try adding .ts extension if file doesn't exist
-            if (!fs.existsSync(resolved)) {
-                if (fs.existsSync(resolved + '.ts')) {
-                    resolved = resolved + '.ts';
-                } else if (fs.existsSync(path.join(resolved, 'index.ts'))) {
-                    resolved = path.join(resolved, 'index.ts');
-                }
+    private async findAllSourceFiles(): Promise<Map<string, string>> {
+        const roots = this.getScanRoots();
+        const sourceFiles = new Map<string, string>();
+
+        for (const [file, sha] of await this.source.listFiles()) {
+            const fullPath = this.normalizePath(file);
+            const root = roots.find(r => fullPath === r || fullPath.startsWith(r + path.sep));
+
+            // Skip node_modules and hidden directories below the root
+            const directories = root ? path.relative(root, path.dirname(fullPath)).split(path.sep) : [];
+            if (!root || directories.some(dir => dir.startsWith('.') || dir === 'node_modules')) {
+                continue;
             }
 
-            return resolved;
+            if (this.testFiles.isAnalyzableSource(fullPath)) {
+                sourceFiles.set(fullPath, sha);
+            }
         }
 
-        // Absolute or module import - not handled for now
-        return importPath;
+        return sourceFiles;
+    }
+
+    /**
+     * Parse a file of the analyzed revision; the caller forgets it when done
+     */
+    private async parseFile(filePath: string): Promise<SourceFile> {
+        const content = await this.readFile(filePath);
+        if (content === null) {
+            throw new Error(`File not found at ${this.source.revision}: ${filePath}`);
+        }
+
+        return this.project.createSourceFile(filePath, content, { overwrite: true });
+    }
+
+    /**
+     * Source roots plus test directories, without directories nested in another root
+     */
+    private getScanRoots(): string[] {
+        const roots = [...new Set([...this.sourceRoots, ...this.testFiles.getTestDirs()])];
+
+        return roots.filter(root =>
+            !roots.some(other => other !== root && root.startsWith(other + path.sep))
+        );
+    }
+
+    /**
+     * Check if a file is a spec file
+     */
+    private isSpecFile(filePath: string): boolean {
+        return this.testFiles.isTestFile(filePath);
+    }
+
+    /**
+     * Resolve an import specifier to an absolute path.
+     * Specifiers that do not resolve to a repository file (external packages) are returned unchanged.
+     */
+    private async resolveImportPath(fromFile: string, importPath: string): Promise<string> {
+        if (!this.moduleResolver) {
+            this.moduleResolver = new ModuleResolver(this.repoPath, this.paths, await this.source.getHost());
+        }
+
+        return this.moduleResolver.resolve(importPath, fromFile) ?? importPath;
+    }
+
+    private toRelative(filePath: string): string {
+        return path.relative(this.repoPath, filePath).split(path.sep).join('/');
     }
 
     /**
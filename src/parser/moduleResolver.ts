@@ -0,0 +1,293 @@
+/**
+ * Module resolution for import specifiers, following the target repository's
+ * tsconfig (baseUrl, paths, extends) and package.json workspaces
+ */
+
+import { ts } from 'ts-morph';
+import * as path from 'path';
+import { FileSystemHost } from '../git/fileSource';
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.js', '.jsx'];
+
+export class ModuleResolver {
+    private repoPath: string;
+    private realRepoPath: string;
+    private compilerOptionsByDir = new Map<string, ts.CompilerOptions>();
+    private resolutionCache = new Map<string, string | null>();
+    private workspacePackages: Map<string, string> | null = null;
+    private aliases: Record<string, string[]>;
+    private host: FileSystemHost;
+
+    /**
+     * @param host the files to resolve against: the real file system by default, or a revision's files
+     */
+    constructor(repoPath: string, aliases: Record<string, string[]> = {}, host: FileSystemHost = ts.sys) {
+        this.repoPath = repoPath;
+        this.aliases = aliases;
+        this.host = host;
+        // TypeScript reports real paths, which differ from repoPath when it contains symlinks
+        this.realRepoPath = host.directoryExists?.(repoPath) && host.realpath ? host.realpath(repoPath) : repoPath;
+    }
+
+    /**
+     * Resolve an import specifier to an absolute file path inside the repository.
+     * Returns null for external packages and specifiers that cannot be resolved.
+     */
+    resolve(specifier: string, fromFile: string): string | null {
+        const cacheKey = `${path.dirname(fromFile)}\0${specifier}`;
+        if (this.resolutionCache.has(cacheKey)) {
+            return this.resolutionCache.get(cacheKey)!;
+        }
+
+        const resolved = this.resolveAlias(specifier) ??
+            this.resolveWithCompiler(specifier, fromFile) ??
+            this.resolveWorkspacePackage(specifier);
+        this.resolutionCache.set(cacheKey, resolved);
+        return resolved;
+    }
+
+    /**
+     * Resolve configured aliases (tsconfig `paths` syntax, relative to the repository root)
+     */
+    private resolveAlias(specifier: string): string | null {
+        for (const [pattern, targets] of Object.entries(this.aliases)) {
+            const starIndex = pattern.indexOf('*');
+            let wildcard: string;
+
+            if (starIndex === -1) {
+                if (specifier !== pattern) continue;
+                wildcard = '';
+            } else {
+                const prefix = pattern.slice(0, starIndex);
+                const suffix = pattern.slice(starIndex + 1);
+                if (!specifier.startsWith(prefix) || !specifier.endsWith(suffix) ||
+                    specifier.length < prefix.length + suffix.length) {
+                    continue;
+                }
+                wildcard = specifier.slice(prefix.length, specifier.length - suffix.length);
+            }
+
+            for (const target of targets) {
+                const resolved = this.resolveFile(path.join(this.repoPath, target.replace('*', wildcard)));
+                if (resolved) {
+                    return resolved;
+                }
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Let TypeScript resolve the specifier; this covers relative paths, baseUrl, paths,
+     * `.js` → `.ts` mapping, index files and symlinked workspace packages
+     */
+    private resolveWithCompiler(specifier: string, fromFile: string): string | null {
+        const compilerOptions = this.getCompilerOptions(path.dirname(fromFile));
+        const { resolvedModule } = ts.resolveModuleName(specifier, fromFile, compilerOptions, this.host);
+
+        if (!resolvedModule) {
+            return null;
+        }
+
+        return this.toRepoSource(resolvedModule.resolvedFileName);
+    }
+
+    /**
+     * Resolve `pkg` or `pkg/sub/path` against packages declared in package.json workspaces,
+     * for checkouts where node_modules has not been installed
+     */
+    private resolveWorkspacePackage(specifier: string): string | null {
+        const packages = this.getWorkspacePackages();
+
+        for (const [name, packageDir] of packages) {
+            if (specifier !== name && !specifier.startsWith(name + '/')) {
+                continue;
+            }
+
+            const subPath = specifier.slice(name.length + 1);
+            if (subPath) {
+                return this.resolveFile(path.join(packageDir, subPath)) ??
+                    this.resolveFile(path.join(packageDir, 'src', subPath));
+            }
+
+            const manifest = this.readJson(path.join(packageDir, 'package.json'));
+            const fields = isObject(manifest) ? [manifest.types, manifest.typings, manifest.main] : [];
+            const entries = [...fields, 'src/index', 'index'].filter((entry): entry is string => typeof entry === 'string');
+
+            for (const entry of entries) {
+                const resolved = this.resolveFile(path.join(packageDir, entry));
+                if (resolved) {
+                    return resolved;
+                }
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Resolve a path without extension, with a `.js` extension standing in for TypeScript, or a directory index
+     */
+    private resolveFile(candidate: string): string | null {
+        const withoutJs = candidate.replace(/\.(js|jsx|mjs|cjs)$/, '');
+        const candidates = [
+            candidate,
+            ...SOURCE_EXTENSIONS.map(ext => withoutJs + ext),
+            ...SOURCE_EXTENSIONS.map(ext => path.join(candidate, 'index' + ext)),
+        ];
+
+        for (const file of candidates) {
+            if (this.host.fileExists(file)) {
+                return this.toRepoSource(file);
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Only files inside the repository (outside node_modules) take part in impact analysis.
+     * Declaration files emitted next to their sources are mapped back to the source.
+     */
+    private toRepoSource(resolvedPath: string): string | null {
+        const root = resolvedPath.startsWith(this.realRepoPath + path.sep) ? this.realRepoPath : this.repoPath;
+        const relative = path.relative(root, resolvedPath);
+        if (relative.startsWith('..') || path.isAbsolute(relative) || relative.split(path.sep).includes('node_modules')) {
+            return null;
+        }
+
+        const filePath = path.join(this.repoPath, relative);
+
+        if (filePath.endsWith('.d.ts')) {
+            const base = filePath.slice(0, -'.d.ts'.length);
+            for (const ext of ['.ts', '.tsx']) {
+                if (this.host.fileExists(base + ext)) {
+                    return base + ext;
+                }
+            }
+        }
+
+        return filePath;
+    }
+
+    /**
+     * Compiler options from the nearest tsconfig.json (with `extends` applied), cached per directory
+     */
+    private getCompilerOptions(dir: string): ts.CompilerOptions {
+        const cached = this.compilerOptionsByDir.get(dir);
+        if (cached) {
+            return cached;
+        }
+
+        let options: ts.CompilerOptions;
+        const configPath = path.join(dir, 'tsconfig.json');
+
+        if (this.host.fileExists(configPath)) {
+            options = this.readCompilerOptions(configPath);
+        } else if (dir === this.repoPath || path.dirname(dir) === dir || !dir.startsWith(this.repoPath)) {
+            options = this.withDefaults({});
+        } else {
+            options = this.getCompilerOptions(path.dirname(dir));
+        }
+
+        this.compilerOptionsByDir.set(dir, options);
+        return options;
+    }
+
+    private readCompilerOptions(configPath: string): ts.CompilerOptions {
+        const { config, error } = ts.readConfigFile(configPath, file => this.host.readFile(file));
+        if (error) {
+            return this.withDefaults({});
+        }
+
+        const parsed = ts.parseJsonConfigFileContent(config, this.host, path.dirname(configPath), undefined, configPath);
+        return this.withDefaults(parsed.options);
+    }
+
+    /**
+     * JavaScript sources must resolve too, and the classic resolver does not understand packages
+     */
+    private withDefaults(options: ts.CompilerOptions): ts.CompilerOptions {
+        return {
+            ...options,
+            allowJs: true,
+            moduleResolution: options.moduleResolution === undefined ||
+                options.moduleResolution === ts.ModuleResolutionKind.Classic
+                ? ts.ModuleResolutionKind.Node10
+                : options.moduleResolution,
+        };
+    }
+
+    /**
+     * Map workspace package names to their directories, from the root package.json `workspaces`
+     */
+    private getWorkspacePackages(): Map<string, string> {
+        if (this.workspacePackages) {
+            return this.workspacePackages;
+        }
+
+        const packages = new Map<string, string>();
+        const rootManifest = this.readJson(path.join(this.repoPath, 'package.json'));
+        // `workspaces` is an array of patterns (npm, Yarn) or `{ packages: [...] }` (Yarn classic)
+        const workspaces = isObject(rootManifest) ? rootManifest.workspaces : undefined;
+        const patterns: unknown[] = Array.isArray(workspaces)
+            ? workspaces
+            : isObject(workspaces) && Array.isArray(workspaces.packages) ? workspaces.packages : [];
+
+        for (const pattern of patterns) {
+            if (typeof pattern !== 'string') continue;
+
+            for (const packageDir of this.expandWorkspacePattern(pattern)) {
+                const manifest = this.readJson(path.join(packageDir, 'package.json'));
+                if (isObject(manifest) && typeof manifest.name === 'string') {
+                    packages.set(manifest.name, packageDir);
+                }
+            }
+        }
+
+        this.workspacePackages = packages;
+        return packages;
+    }
+
+    /**
+     * Expand workspace patterns such as `packages/*` or `apps/web` (single-level wildcards only)
+     */
+    private expandWorkspacePattern(pattern: string): string[] {
+        let dirs = [this.repoPath];
+
+        for (const segment of pattern.replace(/\/+$/, '').split('/')) {
+            const next: string[] = [];
+
+            for (const dir of dirs) {
+                if (segment === '*' || segment === '**') {
+                    if (!this.host.directoryExists?.(dir)) continue;
+                    for (const name of this.host.getDirectories(dir)) {
+                        if (name !== 'node_modules' && !name.startsWith('.')) {
+                            next.push(path.join(dir, name));
+                        }
+                    }
+                } else {
+                    next.push(path.join(dir, segment));
+                }
+            }
+
+            dirs = next;
+        }
+
+        return dirs.filter(dir => this.host.fileExists(path.join(dir, 'package.json')));
+    }
+
+    private readJson(filePath: string): unknown {
+        try {
+            const content = this.host.readFile(filePath);
+            return content === undefined ? null : JSON.parse(content);
+        } catch {
+            return null;
+        }
+    }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,123 @@
+/**
+ * Titles of parameterized tests (`test.each(table)(title, fn)` and tagged-template tables),
+ * formatted per row the way Jest and Vitest do
+ */
+
+import { Node } from 'ts-morph';
+import { Bindings, ConstantEvaluator, ConstantValue } from './constantEvaluator';
+
+type Row = { args: unknown[] } | { object: Record<string, unknown> };
+
+/**
+ * Expand a title template over a table. Returns null unless every row is known statically,
+ * in which case the caller reports the template title instead.
+ */
+export async function expandParameterizedTitles(
+    template: string,
+    table: Node | undefined,
+    evaluator: ConstantEvaluator,
+    bindings: Bindings
+): Promise<string[] | null> {
+    const rows = table ? await readRows(table, evaluator, bindings) : null;
+    if (!rows) {
+        return null;
+    }
+
+    return rows.map((row, index) => 'object' in row
+        ? interpolate(template, row.object, index)
+        : formatPrintf(template, row.args, index));
+}
+
+/**
+ * Rows of an array table (`[[1, 2], [3, 4]]`, `[1, 2]`, `[{ a: 1 }]` or a constant holding one) or a tagged template table
+ */
+async function readRows(table: Node, evaluator: ConstantEvaluator, bindings: Bindings): Promise<Row[] | null> {
+    if (Node.isTemplateExpression(table)) {
+        // First line of the head holds the column names: `a | b | expected`
+        const headerLine = table.getHead().getLiteralText().split('\n').map(line => line.trim()).find(Boolean);
+        const headings = headerLine?.split('|').map(heading => heading.trim()) ?? [];
+        const values: (ConstantValue | null)[] = [];
+        for (const span of table.getTemplateSpans()) {
+            values.push(await evaluator.evaluate(span.getExpression(), bindings));
+        }
+
+        if (headings.length === 0 || headings.some(h => !h) || values.some(v => !v) || values.length % headings.length !== 0) {
+            return null;
+        }
+
+        const rows: Row[] = [];
+        for (let i = 0; i < values.length; i += headings.length) {
+            const object = Object.fromEntries(headings.map((heading, column) => [heading, values[i + column]!.value]));
+            rows.push({ object });
+        }
+        return rows;
+    }
+
+    const evaluated = await evaluator.evaluate(table, bindings);
+    if (!evaluated || !Array.isArray(evaluated.value)) {
+        return null;
+    }
+
+    return evaluated.value.map((value): Row => {
+        if (Array.isArray(value)) {
+            return { args: value };
+        }
+        if (value !== null && typeof value === 'object') {
+            return { object: value as Record<string, unknown> };
+        }
+        return { args: [value] };
+    });
+}
+
+/**
+ * `%s`, `%d`, `%i`, `%f`, `%j`, `%o`, `%p` consume the row's arguments in order; `%#` is the row index
+ */
+function formatPrintf(template: string, args: unknown[], index: number): string {
+    let next = 0;
+
+    return template.replace(/%([sdifjoOp#$%])/g, (placeholder, type: string) => {
+        if (type === '%') return '%';
+        if (type === '#') return String(index);
+        if (type === '$') return String(index + 1);
+        if (next >= args.length) return placeholder;
+
+        const value = args[next++];
+        switch (type) {
+            case 's':
+                return typeof value === 'string' ? value : prettyFormat(value);
+            case 'd':
+                return String(Number(value));
+            case 'i':
+                return String(Number.parseInt(String(value), 10));
+            case 'f':
+                return String(Number.parseFloat(String(value)));
+            default:
+                return prettyFormat(value);
+        }
+    });
+}
+
+/**
+ * `$name` and `$name.path` take values from object rows; `$#` is the row index
+ */
+function interpolate(template: string, row: Record<string, unknown>, index: number): string {
+    return template.replace(/\$(#|[A-Za-z_][\w]*(?:\.[A-Za-z_][\w]*)*)/g, (placeholder, key: string) => {
+        if (key === '#') {
+            return String(index);
+        }
+
+        let value: unknown = row;
+        for (const segment of key.split('.')) {
+            if (value === null || typeof value !== 'object' || !(segment in value)) {
+                return placeholder;
+            }
+            value = (value as Record<string, unknown>)[segment];
+        }
+
+        return prettyFormat(value);
+    });
+}
+
+function prettyFormat(value: unknown): string {
+    return value === undefined ? 'undefined' : JSON.stringify(value);
+}
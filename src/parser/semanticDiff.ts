@@ -0,0 +1,90 @@
+/**
+ * Semantic comparison of two versions of code: the syntax trees are compared without trivia
+ * (whitespace, comments, formatting such as quotes, semicolons, trailing commas and redundant
+ * parentheses) and with imports in any order
+ */
+
+import { ts } from 'ts-morph';
+
+/**
+ * Whether two versions of a file differ only in formatting. `beforeExcluded` and `afterExcluded`
+ * are line ranges (1-based, inclusive) of top-level or nested statements to leave out of the
+ * comparison, e.g. test calls when checking the code around them.
+ */
+export function isCosmeticChange(
+    before: string,
+    after: string,
+    filePath: string,
+    beforeExcluded: [number, number][] = [],
+    afterExcluded: [number, number][] = []
+): boolean {
+    return getSemanticFingerprint(before, filePath, beforeExcluded) === getSemanticFingerprint(after, filePath, afterExcluded);
+}
+
+/**
+ * Serialize a syntax tree with only what affects behavior: node kinds, names, literal values and operators
+ */
+export function getSemanticFingerprint(content: string, filePath: string, excluded: [number, number][] = []): string {
+    const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, false);
+    const lineOf = (position: number) => sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+
+    const isExcluded = (node: ts.Node) => {
+        if (excluded.length === 0 || !ts.isExpressionStatement(node)) {
+            return false;
+        }
+        const start = lineOf(node.getStart(sourceFile));
+        const end = lineOf(node.getEnd());
+        return excluded.some(([from, to]) => start >= from && end <= to);
+    };
+
+    const serialize = (node: ts.Node): string => {
+        // Grouping is already part of the tree's shape
+        if (ts.isParenthesizedExpression(node)) {
+            return serialize(node.expression);
+        }
+        if (ts.isJsxText(node)) {
+            return node.containsOnlyTriviaWhiteSpaces ? '' : `jsx:${node.text.replace(/\s+/g, ' ').trim()}`;
+        }
+
+        const children: string[] = [];
+        ts.forEachChild(node, child => {
+            if (!isExcluded(child)) {
+                children.push(serialize(child));
+            }
+        });
+
+        // Import order does not matter, nor the order of the names in one import
+        if (ts.isSourceFile(node) || ts.isNamedImports(node)) {
+            const isImport = (child: string) => child.startsWith(`${ts.SyntaxKind.ImportDeclaration}(`) ||
+                child.startsWith(`${ts.SyntaxKind.ImportSpecifier}(`);
+            children.splice(0, children.length, ...children.filter(isImport).sort(), ...children.filter(child => !isImport(child)));
+        }
+
+        return `${node.kind}${describeNode(node)}(${children.filter(Boolean).join(',')})`;
+    };
+
+    return serialize(sourceFile);
+}
+
+/**
+ * What a node holds besides its children: names and literal values, and operators or declaration
+ * keywords that are not child nodes
+ */
+function describeNode(node: ts.Node): string {
+    if (
+        ts.isIdentifier(node) || ts.isPrivateIdentifier(node) || ts.isStringLiteral(node) ||
+        ts.isNumericLiteral(node) || ts.isBigIntLiteral(node) || ts.isRegularExpressionLiteral(node) ||
+        ts.isNoSubstitutionTemplateLiteral(node) || ts.isTemplateHead(node) ||
+        ts.isTemplateMiddle(node) || ts.isTemplateTail(node)
+    ) {
+        return `:${JSON.stringify(node.text)}`;
+    }
+    if (ts.isPrefixUnaryExpression(node) || ts.isPostfixUnaryExpression(node)) {
+        return `:${node.operator}`;
+    }
+    if (ts.isVariableDeclarationList(node)) {
+        return `:${node.flags & ts.NodeFlags.BlockScoped}`;
+    }
+
+    return '';
+}
@@ -0,0 +1,446 @@
+/**
+ * Symbol-level change detection: which declarations of a module changed,
+ * and which code depends on them
+ */
+
+import { Project, SyntaxKind, Node, ObjectLiteralElementLike, SourceFile, ts } from 'ts-morph';
+import * as path from 'path';
+import { getExtendCall, getFixtureDefinitions, getRequestedFixtures } from './fixtureAnalyzer';
+
+export interface ChangedSymbols {
+    all: boolean; // module-level code changed, so every binding to the module is affected
+    exports: Set<string>; // exported names whose declarations changed
+    members: Set<string>; // changed class members, matched by name on any instance
+    fixtures: Set<string>; // changed `test.extend` fixtures, matched by name wherever they are requested
+}
+
+export interface SymbolSeeds {
+    all: boolean; // side-effect import of a changed module; the whole file is affected
+    locals: Set<string>; // local bindings that refer to changed symbols
+    members: Set<string>; // changed class members reachable from this file
+    fixtures: Set<string>; // changed fixtures reachable from this file
+    reExports: Set<string>; // names this file re-exports from changed modules
+}
+
+interface References {
+    locals: Set<string>;
+    members: Set<string>;
+    fixtures: Set<string>;
+}
+
+interface DeclarationUnit {
+    localName: string | null; // null for module-level code (expression statements, etc.) and export assignments
+    member?: string; // class member name, for units inside a class, or property of an exported object literal
+    fixture?: string; // fixture name, for units inside a `test.extend({...})` call
+    exportName?: string; // name an export assignment publishes: 'x' for `exports.x = ...`, 'default' for `module.exports = ...`
+    node: Node; // node whose line range the unit covers
+    searchNodes: Node[]; // nodes searched for references to other units
+}
+
+export function emptyChangedSymbols(): ChangedSymbols {
+    return { all: false, exports: new Set(), members: new Set(), fixtures: new Set() };
+}
+
+export function emptySymbolSeeds(): SymbolSeeds {
+    return { all: false, locals: new Set(), members: new Set(), fixtures: new Set(), reExports: new Set() };
+}
+
+export function hasChangedSymbols(symbols: ChangedSymbols): boolean {
+    return symbols.all || symbols.exports.size > 0 || symbols.members.size > 0 || symbols.fixtures.size > 0;
+}
+
+export function mergeChangedSymbols(a: ChangedSymbols, b: ChangedSymbols): ChangedSymbols {
+    return {
+        all: a.all || b.all,
+        exports: new Set([...a.exports, ...b.exports]),
+        members: new Set([...a.members, ...b.members]),
+        fixtures: new Set([...a.fixtures, ...b.fixtures]),
+    };
+}
+
+export class SymbolAnalyzer {
+    private project: Project;
+
+    constructor() {
+        this.project = new Project({
+            skipAddingFilesFromTsConfig: true,
+            compilerOptions: { allowJs: true, jsx: ts.JsxEmit.Preserve },
+        });
+    }
+
+    /**
+     * Find the symbols of a module affected by changes on the given lines.
+     * Import declarations are ignored: a changed import only matters where the imported name is used,
+     * and those usages show up as changed lines themselves.
+     */
+    getChangedSymbols(content: string, changedLines: number[], filePath: string): ChangedSymbols {
+        return this.withSourceFile(content, filePath, sourceFile => {
+            const units = this.getUnits(sourceFile);
+            const changed = new Set<DeclarationUnit>();
+
+            for (const line of changedLines) {
+                this.findUnitsAtLine(units, line).forEach(unit => changed.add(unit));
+            }
+
+            return this.collectChanges(sourceFile, units, changed, emptySymbolSeeds());
+        });
+    }
+
+    /**
+     * Find the symbols of a module affected by changes in the modules it imports
+     */
+    getDependentSymbols(content: string, seeds: SymbolSeeds, filePath: string): ChangedSymbols {
+        return this.withSourceFile(content, filePath, sourceFile => {
+            const units = this.getUnits(sourceFile);
+            const changed = new Set(units.filter(unit => this.referencesAny(unit.searchNodes, seeds)));
+
+            return this.collectChanges(sourceFile, units, changed, seeds);
+        });
+    }
+
+    /**
+     * Lines of module-level code (test calls, hooks, describe blocks) that reference changed symbols
+     * or request changed fixtures, directly or through local declarations that do.
+     * Returns null when the whole file is affected.
+     */
+    findReferenceLines(content: string, seeds: SymbolSeeds, filePath: string): number[] | null {
+        if (seeds.all) {
+            return null;
+        }
+
+        return this.withSourceFile(content, filePath, sourceFile => {
+            const units = this.getUnits(sourceFile);
+            const declarations = units.filter(unit => unit.localName !== null);
+            const references: References = {
+                locals: new Set(seeds.locals),
+                members: new Set(seeds.members),
+                fixtures: new Set(seeds.fixtures),
+            };
+
+            // Local helpers and fixtures that use changed symbols count as changed themselves
+            this.expand(declarations, new Set(), references);
+
+            const lines = new Set<number>();
+            for (const unit of units.filter(isModuleCode)) {
+                for (const node of this.findReferences(unit.searchNodes, references)) {
+                    lines.add(node.getStartLineNumber());
+                }
+            }
+
+            return [...lines].sort((a, b) => a - b);
+        });
+    }
+
+    /**
+     * Expand the changed units within the file and map them onto exported names
+     */
+    private collectChanges(
+        sourceFile: SourceFile,
+        units: DeclarationUnit[],
+        changed: Set<DeclarationUnit>,
+        seeds: SymbolSeeds
+    ): ChangedSymbols {
+        const references: References = {
+            locals: new Set(),
+            members: new Set(seeds.members),
+            fixtures: new Set(seeds.fixtures),
+        };
+
+        for (const unit of changed) {
+            this.record(unit, references);
+        }
+        this.expand(units, changed, references);
+
+        const exports = new Set([
+            ...seeds.reExports,
+            ...this.getExportedNames(sourceFile, references.locals),
+            ...[...changed].flatMap(unit => unit.exportName ?? []),
+        ]);
+        const all = seeds.all || [...changed].some(isModuleCode);
+
+        return { all, exports, members: references.members, fixtures: references.fixtures };
+    }
+
+    /**
+     * Mark every unit that references a changed local, member or fixture as changed, until nothing new is found
+     */
+    private expand(units: DeclarationUnit[], changed: Set<DeclarationUnit>, references: References): void {
+        let grew = true;
+
+        while (grew) {
+            grew = false;
+
+            for (const unit of units) {
+                if (!changed.has(unit) && this.referencesAny(unit.searchNodes, references)) {
+                    changed.add(unit);
+                    this.record(unit, references);
+                    grew = true;
+                }
+            }
+        }
+    }
+
+    private record(unit: DeclarationUnit, references: References): void {
+        if (unit.member) {
+            references.members.add(unit.member);
+        } else if (unit.fixture) {
+            references.fixtures.add(unit.fixture);
+        } else if (unit.localName) {
+            references.locals.add(unit.localName);
+        }
+    }
+
+    /**
+     * Split a module into declaration units: functions, variables, types, class members,
+     * fixtures, export assignments and module-level code
+     */
+    private getUnits(sourceFile: SourceFile): DeclarationUnit[] {
+        const units: DeclarationUnit[] = [];
+
+        for (const statement of sourceFile.getStatements()) {
+            if (Node.isImportDeclaration(statement)) {
+                continue;
+            }
+
+            if (Node.isClassDeclaration(statement)) {
+                const className = statement.getName() ?? 'default';
+
+                // The class "shell" covers heritage clauses and decorators; members are units of their own
+                units.push({
+                    localName: className,
+                    node: statement,
+                    searchNodes: [...statement.getHeritageClauses(), ...statement.getDecorators()],
+                });
+
+                for (const member of statement.getMembers()) {
+                    // Constructors change how every instance is built, so they count as the whole class
+                    const memberName = Node.hasName(member) ? member.getName() : undefined;
+
+                    units.push({ localName: className, member: memberName, node: member, searchNodes: [member] });
+                }
+                continue;
+            }
+
+            if (Node.isVariableStatement(statement)) {
+                for (const declaration of statement.getDeclarations()) {
+                    // `require()` bindings are the CommonJS equivalent of import declarations
+                    const initializer = declaration.getInitializer();
+                    if (initializer && Node.isCallExpression(initializer) && initializer.getExpression().getText() === 'require') {
+                        continue;
+                    }
+
+                    const extendCall = getExtendCall(initializer);
+                    if (!extendCall) {
+                        units.push({ localName: declaration.getName(), node: declaration, searchNodes: [declaration] });
+                        continue;
+                    }
+
+                    // Like a class, `base.extend({...})` is split into a shell (the base test and type arguments)
+                    // and one unit per fixture, so tests only depend on the fixtures they request
+                    const callee = extendCall.getExpression();
+                    units.push({
+                        localName: declaration.getName(),
+                        node: declaration,
+                        searchNodes: [callee, ...extendCall.getTypeArguments()],
+                    });
+
+                    for (const fixture of getFixtureDefinitions(extendCall)) {
+                        // Auto fixtures run for every test, so they count as the whole test object
+                        units.push({
+                            localName: declaration.getName(),
+                            fixture: fixture.auto ? undefined : fixture.name,
+                            node: fixture.node,
+                            searchNodes: [fixture.node],
+                        });
+                    }
+                }
+                continue;
+            }
+
+            if (
+                Node.isFunctionDeclaration(statement) ||
+                Node.isInterfaceDeclaration(statement) ||
+                Node.isTypeAliasDeclaration(statement) ||
+                Node.isEnumDeclaration(statement)
+            ) {
+                units.push({ localName: statement.getName() ?? 'default', node: statement, searchNodes: [statement] });
+                continue;
+            }
+
+            const exportAssignment = getExportAssignment(statement);
+            if (exportAssignment) {
+                const { exportName, value } = exportAssignment;
+                if (exportName !== 'default' || !Node.isObjectLiteralExpression(value)) {
+                    units.push({ localName: null, exportName, node: statement, searchNodes: [statement] });
+                    continue;
+                }
+
+                // Like a class, an exported object literal is split into a shell (the export itself) and one unit
+                // per property: CommonJS publishes it under its name, and either way it is read as a member
+                units.push({ localName: null, exportName, node: statement, searchNodes: [] });
+
+                const isCommonJs = Node.isExpressionStatement(statement);
+                for (const property of value.getProperties()) {
+                    const propertyName = getPropertyName(property);
+
+                    // Spread properties publish names only known at runtime, so they count as the whole export
+                    units.push(propertyName === undefined
+                        ? { localName: null, exportName, node: property, searchNodes: [property] }
+                        : {
+                            localName: null,
+                            member: propertyName,
+                            ...(isCommonJs && { exportName: propertyName }),
+                            node: property,
+                            searchNodes: [property],
+                        });
+                }
+                continue;
+            }
+
+            units.push({ localName: null, node: statement, searchNodes: [statement] });
+        }
+
+        return units;
+    }
+
+    /**
+     * Find the innermost units containing a line: all of them when several share it
+     * (`module.exports = { add, sub };`, a class on one line)
+     */
+    private findUnitsAtLine(units: DeclarationUnit[], line: number): DeclarationUnit[] {
+        const span = (unit: DeclarationUnit) => unit.node.getEndLineNumber() - unit.node.getStartLineNumber();
+        const containing = units.filter(unit =>
+            line >= unit.node.getStartLineNumber() && line <= unit.node.getEndLineNumber()
+        );
+        const innermost = Math.min(...containing.map(span));
+
+        return containing.filter(unit => span(unit) === innermost);
+    }
+
+    /**
+     * Map changed local declarations onto the names the module exports them as
+     */
+    private getExportedNames(sourceFile: SourceFile, locals: Set<string>): string[] {
+        const names: string[] = [];
+
+        try {
+            for (const [exportName, declarations] of sourceFile.getExportedDeclarations()) {
+                for (const declaration of declarations) {
+                    if (declaration.getSourceFile() !== sourceFile) {
+                        continue;
+                    }
+
+                    const localName = Node.hasName(declaration) ? declaration.getName() : undefined;
+                    if (locals.has(localName ?? 'default')) {
+                        names.push(exportName);
+                        break;
+                    }
+                }
+            }
+        } catch (error) {
+            // Unresolvable re-exports are tracked through SymbolSeeds.reExports instead
+        }
+
+        return names;
+    }
+
+    private referencesAny(nodes: Node[], references: References): boolean {
+        return this.findReferences(nodes, references).length > 0;
+    }
+
+    /**
+     * Find identifiers referring to changed locals, property accesses of changed members
+     * and requests for changed fixtures
+     */
+    private findReferences(nodes: Node[], { locals, members, fixtures }: References): Node[] {
+        const references: Node[] = [];
+        if (locals.size === 0 && members.size === 0 && fixtures.size === 0) {
+            return references;
+        }
+
+        for (const root of nodes) {
+            if (fixtures.size > 0) {
+                for (const request of getRequestedFixtures(root)) {
+                    if (fixtures.has(request.name)) {
+                        references.push(request.node);
+                    }
+                }
+            }
+
+            for (const identifier of root.getDescendantsOfKind(SyntaxKind.Identifier)) {
+                const name = identifier.getText();
+                const parent = identifier.getParent();
+
+                if (parent && Node.isPropertyAccessExpression(parent) && parent.getNameNode() === identifier) {
+                    if (members.has(name)) {
+                        references.push(identifier);
+                    }
+                } else if (locals.has(name)) {
+                    references.push(identifier);
+                }
+            }
+        }
+
+        return references;
+    }
+
+    /**
+     * Parse content into a temporary source file and clean it up afterwards.
+     * The original extension is kept so JavaScript and JSX are parsed correctly.
+     */
+    private withSourceFile<T>(content: string, filePath: string, callback: (sourceFile: SourceFile) => T): T {
+        const fileName = `symbols_${Date.now()}${path.extname(filePath) || '.ts'}`;
+        const sourceFile = this.project.createSourceFile(fileName, content, { overwrite: true });
+
+        try {
+            return callback(sourceFile);
+        } finally {
+            sourceFile.forget();
+        }
+    }
+}
+
+/**
+ * Module-level code (test calls, hooks, other statements), as opposed to declarations and exports
+ */
+function isModuleCode(unit: DeclarationUnit): boolean {
+    return unit.localName === null && unit.member === undefined && unit.exportName === undefined;
+}
+
+/**
+ * Read an export assignment: `export default <value>` and `export = <value>`, or CommonJS
+ * `module.exports = <value>` (both published as 'default') and `exports.x = <value>` / `module.exports.x = <value>`
+ */
+function getExportAssignment(statement: Node): { exportName: string; value: Node } | undefined {
+    if (Node.isExportAssignment(statement)) {
+        return { exportName: 'default', value: statement.getExpression() };
+    }
+
+    const expression = Node.isExpressionStatement(statement) ? statement.getExpression() : undefined;
+    if (!expression || !Node.isBinaryExpression(expression) || expression.getOperatorToken().getKind() !== SyntaxKind.EqualsToken) {
+        return undefined;
+    }
+
+    const target = expression.getLeft().getText().replace(/\s+/g, '');
+    if (target === 'module.exports') {
+        return { exportName: 'default', value: expression.getRight() };
+    }
+
+    const named = target.match(/^(?:module\.)?exports\.([A-Za-z_$][\w$]*)$/);
+    return named ? { exportName: named[1], value: expression.getRight() } : undefined;
+}
+
+/**
+ * Static name of an object literal property, or undefined for spreads and computed names
+ */
+function getPropertyName(property: ObjectLiteralElementLike): string | undefined {
+    if (Node.isSpreadAssignment(property)) {
+        return undefined;
+    }
+
+    const nameNode = property.getNameNode();
+    if (Node.isIdentifier(nameNode)) {
+        return nameNode.getText();
+    }
+    return Node.isStringLiteral(nameNode) || Node.isNumericLiteral(nameNode) ? nameNode.getLiteralText() : undefined;
+}
@@ -2,115 +2,542 @@
  * Test file parser using TypeScript AST
  */
 
-import { Project, SyntaxKind, Node, CallExpression, SourceFile } from 'ts-morph';
-import { TestInfo } from '../types';
+import { Project, SyntaxKind, Node, CallExpression, SourceFile, ts } from 'ts-morph';
+import { FrameworkAdapter, TestAnnotation, TestCallKind, TestInfo, TestModifier, TestSuite } from '../types';
+import { getExtendCall } from './fixtureAnalyzer';
+import { expandParameterizedTitles } from './parameterizedTests';
+import { Bindings, ConstantEvaluator, ModuleLoader } from './constantEvaluator';
+import { playwrightAdapter } from '../frameworks/playwright';
+import { AnalysisCache } from '../cache/analysisCache';
+import { hashBlob } from '../git/operations';
 import * as path from 'path';
+import * as fs from 'fs';
+
+/**
+ * A call's callee as a property path from a global, e.g. ['test', 'describe', 'serial'].
+ * For curried calls (`test.each(table)(...)`) `curried` is the argument of the inner call.
+ */
+interface Callee {
+    path: string[];
+    curried?: Node;
+}
+
+/**
+ * A describe block as defined once by a call, with the loop variables in scope there.
+ * Inside a loop one call defines a describe block per iteration.
+ */
+interface Scope {
+    suite: TestSuite;
+    bindings: Bindings;
+}
+
+/**
+ * A loop around test or describe calls: the statement or `xs.forEach(...)` call, what it iterates
+ * and the variables it binds
+ */
+interface Loop {
+    node: Node;
+    iterable: Node;
+    variable: Node;
+    index?: Node;
+    keys: boolean; // `for...in` iterates the keys
+}
+
+/**
+ * Tags, annotations and focus of a test or describe block, before the tags in its title are added
+ */
+interface Metadata {
+    tags: string[];
+    annotations: TestAnnotation[];
+    only: boolean;
+}
+
+/**
+ * `@tag` tokens in a title, as Playwright reads them
+ */
+const TITLE_TAG = /(?<=^|\s)@\S+/g;
+
+/**
+ * Upper bound on the iterations a loop (or nested loops) is expanded into, per call
+ */
+const MAX_LOOP_EXPANSIONS = 1000;
 
 export class TestParser {
     private project: Project;
+    private adapters: FrameworkAdapter[];
+    private frameworks: string; // adapters' names, so cached trees are only reused with the same adapters
+    private cache: AnalysisCache;
 
-    constructor() {
+    constructor(adapters: FrameworkAdapter[] = [playwrightAdapter()], cache: AnalysisCache = new AnalysisCache(null)) {
+        this.adapters = adapters;
+        this.frameworks = adapters.map(adapter => adapter.name).join(',');
+        this.cache = cache;
         this.project = new Project({
             skipAddingFilesFromTsConfig: true,
+            compilerOptions: { allowJs: true, jsx: ts.JsxEmit.Preserve },
         });
     }
 
     /**
-     * Parse a test file and extract all test definitions
+     * Parse a test file and extract all test definitions (describe blocks are not tests)
+     */
+    async parseTestFile(filePath: string, content?: string, loadModule?: ModuleLoader): Promise<TestInfo[]> {
+        return flattenTests(await this.parseTestTree(filePath, content, loadModule));
+    }
+
+    /**
+     * Parse a test file into its tree of describe blocks, tests and hooks.
+     * Without `content` the file is read from disk. `loadModule` reads imported modules, so titles and loops
+     * can use constants defined there. Trees are cached by blob SHA unless they depend on such imports.
      */
-    async parseTestFile(filePath: string, content?: string): Promise<TestInfo[]> {
-        let sourceFile: SourceFile;
+    async parseTestTree(filePath: string, content?: string, loadModule?: ModuleLoader): Promise<TestSuite> {
+        const source = content ?? fs.readFileSync(filePath, 'utf-8');
+        const sha = hashBlob(source);
 
-        if (content) {
-            // Parse from content string (for historical versions)
-            sourceFile = this.project.createSourceFile(`temp_${Date.now()}.ts`, content, { overwrite: true });
-        } else {
-            // Parse from file system
-            sourceFile = this.project.addSourceFileAtPath(filePath);
+        const cached = this.cache.getTests(sha, filePath, this.frameworks);
+        if (cached) {
+            return cached;
         }
 
-        const tests = this.extractTests(sourceFile, filePath);
+        // Keep the extension so JS/JSX parse correctly
+        const fileName = `temp_${Date.now()}${path.extname(filePath) || '.ts'}`;
+        const sourceFile = this.project.createSourceFile(fileName, source, { overwrite: true });
+        // Imports resolve relative to the spec's real location
+        const evaluator = new ConstantEvaluator(
+            this.project,
+            loadModule && ((specifier, fromFile) => loadModule(specifier, fromFile === sourceFile.getFilePath() ? filePath : fromFile))
+        );
+
+        try {
+            const tree = await this.extractTree(sourceFile, filePath, evaluator);
 
-        // Clean up temporary source file
-        if (content) {
+            if (!evaluator.usedImports) {
+                this.cache.setTests(sha, tree, this.frameworks);
+            }
+            return tree;
+        } finally {
             sourceFile.forget();
+            await evaluator.dispose();
+        }
+    }
+
+    /**
+     * Build the suite tree from the AST. Calls are visited in document order,
+     * so a describe block is always registered before its contents.
+     * Calls inside loops over constant arrays are expanded once per element.
+     */
+    private async extractTree(sourceFile: SourceFile, filePath: string, evaluator: ConstantEvaluator): Promise<TestSuite> {
+        const globals = this.getGlobals(sourceFile);
+        const root: TestSuite = {
+            title: null,
+            titlePath: [],
+            startLine: 1,
+            endLine: sourceFile.getEndLineNumber(),
+            suites: [],
+            tests: [],
+            hooks: [],
+            loops: [],
+        };
+        const scopesByCall = new Map<Node, Scope[]>([[sourceFile, [{ suite: root, bindings: new Map() }]]]);
+
+        for (const callExpr of sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+            const callee = this.getCallee(callExpr.getExpression());
+            const global = callee && globals.get(callee.path[0]);
+            const call = global ? this.classify([global, ...callee!.path.slice(1)]) : null;
+            if (!call) {
+                continue;
+            }
+
+            const parentCall = callExpr.getAncestors().find(ancestor => scopesByCall.has(ancestor))!;
+            const loops = this.getEnclosingLoops(callExpr, parentCall).map(loop => ({
+                startLine: loop.node.getStartLineNumber(),
+                endLine: loop.node.getEndLineNumber(),
+            }));
+            const scopes: Scope[] = [];
+
+            for (const parent of scopesByCall.get(parentCall)!) {
+                if (call.kind !== 'hook') {
+                    for (const loop of loops) {
+                        if (!parent.suite.loops.some(known => known.startLine === loop.startLine && known.endLine === loop.endLine)) {
+                            parent.suite.loops.push(loop);
+                        }
+                    }
+                }
+
+                if (call.kind === 'hook') {
+                    parent.suite.hooks.push({
+                        kind: call.hook,
+                        startLine: callExpr.getStartLineNumber(),
+                        endLine: callExpr.getEndLineNumber(),
+                    });
+                    continue;
+                }
+
+                const table = call.parameterized ? callee!.curried : undefined;
+
+                for (const bindings of await this.expandLoops(callExpr, parentCall, parent.bindings, evaluator)) {
+                    if (call.kind === 'suite') {
+                        const suites = await this.extractSuites(callExpr, parent.suite, bindings, evaluator, table, call.modifiers);
+                        for (const suite of suites) {
+                            parent.suite.suites.push(suite);
+                            scopes.push({ suite, bindings });
+                        }
+                    } else {
+                        const tests = await this.extractTests(callExpr, filePath, parent.suite, bindings, evaluator, table, call.modifiers);
+                        parent.suite.tests.push(...tests);
+                    }
+                }
+            }
+
+            if (scopes.length > 0) {
+                scopesByCall.set(callExpr, scopes);
+            }
+        }
+
+        return root;
+    }
+
+    /**
+     * Bind the variables of the loops between a describe block (or the file) and a call nested in it:
+     * `for (const x of xs)`, `for (const k in obj)` and `xs.forEach((x, i) => ...)` / `xs.map(...)`.
+     * Yields one set of bindings per iteration. A loop over values that are not known statically
+     * leaves its variables unbound, so titles using them stay dynamic.
+     */
+    private async expandLoops(node: Node, boundary: Node, bindings: Bindings, evaluator: ConstantEvaluator): Promise<Bindings[]> {
+        let expansions = [bindings];
+
+        for (const loop of this.getEnclosingLoops(node, boundary)) {
+            const next: Bindings[] = [];
+            for (const outer of expansions) {
+                const iterable = await evaluator.evaluate(loop.iterable, outer);
+                const items = iterable ? this.getLoopItems(iterable.value, loop.keys) : null;
+
+                if (!items) {
+                    next.push(outer);
+                    continue;
+                }
+
+                items.forEach((item, position) => {
+                    const inner = new Map(outer);
+                    this.bind(loop.variable, item, inner);
+                    if (loop.index) {
+                        this.bind(loop.index, position, inner);
+                    }
+                    next.push(inner);
+                });
+            }
+
+            if (next.length > MAX_LOOP_EXPANSIONS) {
+                return [bindings];
+            }
+            expansions = next;
+        }
+
+        return expansions;
+    }
+
+    /**
+     * Loops between a describe block (or the file) and a call nested in it, outermost first
+     */
+    private getEnclosingLoops(node: Node, boundary: Node): Loop[] {
+        const ancestors = node.getAncestors();
+        const path = ancestors.slice(0, ancestors.indexOf(boundary)).reverse();
+
+        return path
+            .map((ancestor, index) => this.getLoop(ancestor, path[index + 1] ?? node))
+            .filter((loop): loop is Loop => loop !== null);
+    }
+
+    /**
+     * Describe a loop whose body contains `child`, or return null if `node` is not such a loop
+     */
+    private getLoop(node: Node, child: Node): Loop | null {
+        if ((Node.isForOfStatement(node) || Node.isForInStatement(node)) && node.getStatement() === child) {
+            const initializer = node.getInitializer();
+            const variable = Node.isVariableDeclarationList(initializer)
+                ? initializer.getDeclarations()[0]?.getNameNode()
+                : initializer;
+
+            return variable ? { node, iterable: node.getExpression(), variable, keys: Node.isForInStatement(node) } : null;
+        }
+
+        // xs.forEach((x, i) => ...) and xs.map(...), with the callback as the first argument
+        const call = node.getParent();
+        const method = Node.isCallExpression(call) && call.getArguments()[0] === node ? call.getExpression() : undefined;
+        if (
+            call && (Node.isArrowFunction(node) || Node.isFunctionExpression(node)) &&
+            Node.isPropertyAccessExpression(method) && ['forEach', 'map', 'flatMap'].includes(method.getName())
+        ) {
+            const [variable, index] = node.getParameters().map(parameter => parameter.getNameNode());
+            return variable ? { node: call, iterable: method.getExpression(), variable, index, keys: false } : null;
+        }
+
+        return null;
+    }
+
+    /**
+     * Values a loop iterates over: array elements, or keys for `for...in`
+     */
+    private getLoopItems(value: unknown, keys: boolean): unknown[] | null {
+        if (keys) {
+            return value !== null && typeof value === 'object' ? Object.keys(value) : null;
+        }
+
+        return Array.isArray(value) ? value : null;
+    }
+
+    /**
+     * Bind a loop variable, destructuring arrays (`[name, user]`) and objects (`{ role, path }`)
+     */
+    private bind(name: Node, value: unknown, bindings: Bindings): void {
+        if (Node.isIdentifier(name)) {
+            bindings.set(name.getText(), value);
+            return;
         }
 
-        return tests;
+        if (Node.isArrayBindingPattern(name) && Array.isArray(value)) {
+            name.getElements().forEach((element, position) => {
+                if (Node.isBindingElement(element)) {
+                    this.bind(element.getNameNode(), element.getDotDotDotToken() ? value.slice(position) : value[position], bindings);
+                }
+            });
+            return;
+        }
+
+        if (Node.isObjectBindingPattern(name) && value !== null && typeof value === 'object') {
+            for (const element of name.getElements()) {
+                const property = element.getPropertyNameNode()?.getText() ?? element.getName();
+                if (!element.getDotDotDotToken() && property in value) {
+                    this.bind(element.getNameNode(), (value as Record<string, unknown>)[property], bindings);
+                }
+            }
+        }
     }
 
     /**
-     * Extract test definitions from AST
+     * Map the names a file uses for the frameworks' globals back to them: the globals themselves,
+     * import aliases (`import { test as base }`) and fixture extensions (`const test = base.extend({...})`)
      */
-    private extractTests(sourceFile: SourceFile, filePath: string): TestInfo[] {
-        const tests: TestInfo[] = [];
+    private getGlobals(sourceFile: SourceFile): Map<string, string> {
+        const globals = new Map(this.adapters.flatMap(adapter => adapter.globals).map(name => [name, name]));
+        let grew = true;
 
-        // Find all call expressions
-        const callExpressions = sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression);
+        while (grew) {
+            const sizeBefore = globals.size;
 
-        for (const callExpr of callExpressions) {
-            const expression = callExpr.getExpression();
-            const expressionText = expression.getText();
+            for (const importDecl of sourceFile.getImportDeclarations()) {
+                for (const named of importDecl.getNamedImports()) {
+                    const alias = named.getAliasNode();
+                    const global = globals.get(named.getName());
+                    if (alias && global && !globals.has(alias.getText())) {
+                        globals.set(alias.getText(), global);
+                    }
+                }
+            }
 
-            // Look for test() or test.skip() or test.only() calls
-            if (this.isTestCall(expressionText)) {
-                const testInfo = this.extractTestInfo(callExpr, filePath);
-                if (testInfo) {
-                    tests.push(testInfo);
+            for (const declaration of sourceFile.getVariableDeclarations()) {
+                const extendCall = getExtendCall(declaration.getInitializer());
+                const callee = extendCall?.getExpression();
+                const global = callee && Node.isPropertyAccessExpression(callee)
+                    ? globals.get(callee.getExpression().getText())
+                    : undefined;
+
+                if (global && !globals.has(declaration.getName())) {
+                    globals.set(declaration.getName(), global);
                 }
             }
+
+            grew = globals.size > sizeBefore;
         }
 
-        return tests;
+        return globals;
     }
 
     /**
-     * Check if a call expression is a test definition
+     * Read a callee as a property path; curried calls and tagged templates (`test.each\`table\``)
+     * are only allowed as the function producing the callee
      */
-    private isTestCall(expressionText: string): boolean {
-        return (
-            expressionText === 'test' ||
-            expressionText === 'test.skip' ||
-            expressionText === 'test.only' ||
-            expressionText === 'test.describe' ||
-            expressionText === 'test.fixme'
-        );
+    private getCallee(expression: Node): Callee | null {
+        if (Node.isCallExpression(expression)) {
+            const path = this.getPropertyPath(expression.getExpression());
+            return path && { path, curried: expression.getArguments()[0] };
+        }
+
+        if (Node.isTaggedTemplateExpression(expression)) {
+            const path = this.getPropertyPath(expression.getTag());
+            return path && { path, curried: expression.getTemplate() };
+        }
+
+        const path = this.getPropertyPath(expression);
+        return path && { path };
+    }
+
+    private getPropertyPath(expression: Node): string[] | null {
+        if (Node.isIdentifier(expression)) {
+            return [expression.getText()];
+        }
+
+        if (Node.isPropertyAccessExpression(expression)) {
+            const path = this.getPropertyPath(expression.getExpression());
+            return path && [...path, expression.getName()];
+        }
+
+        return null;
     }
 
     /**
-     * Extract test information from a call expression
+     * Ask the adapters what a call defines; the first that recognizes it wins
      */
-    private extractTestInfo(callExpr: CallExpression, filePath: string): TestInfo | null {
+    private classify(path: string[]): TestCallKind | null {
+        for (const adapter of this.adapters) {
+            const call = adapter.classify(path);
+            if (call) {
+                return call;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Extract a describe block; anonymous describes (`test.describe(() => ...)`) do not contribute a title.
+     * Parameterized describes yield one block per row of a static table, or a single block with the template title.
+     */
+    private async extractSuites(
+        callExpr: CallExpression,
+        parent: TestSuite,
+        bindings: Bindings,
+        evaluator: ConstantEvaluator,
+        table?: Node,
+        modifiers: TestModifier[] = []
+    ): Promise<TestSuite[]> {
         const args = callExpr.getArguments();
+        const body = args[args.length - 1];
 
-        if (args.length < 2) {
-            return null;
+        if (!body || !this.isFunction(body)) {
+            return [];
         }
 
-        // First argument should be the test name (string literal)
-        const nameArg = args[0];
-        let testName: string;
+        const template = args.length >= 2 ? await evaluator.evaluateTitle(args[0], bindings) : null;
+        const expanded = template && table ? await expandParameterizedTitles(template.text, table, evaluator, bindings) : null;
+        const titles = expanded ?? [template && template.text];
+        const dynamicTitle = parent.dynamicTitle || (template !== null && (!template.exact || (table !== undefined && !expanded)));
+        const metadata = await this.readMetadata(args, modifiers, parent, bindings, evaluator);
+
+        return titles.map(title => {
+            const suite: TestSuite = {
+                title,
+                titlePath: title === null ? parent.titlePath : [...parent.titlePath, title],
+                startLine: callExpr.getStartLineNumber(),
+                endLine: callExpr.getEndLineNumber(),
+                suites: [],
+                tests: [],
+                hooks: [],
+                loops: [],
+            };
 
-        if (Node.isStringLiteral(nameArg)) {
-            testName = nameArg.getLiteralValue();
-        } else {
-            // Template literal or other expression
-            testName = nameArg.getText().replace(/['"]/g, '');
+            if (dynamicTitle) {
+                suite.dynamicTitle = true;
+            }
+            this.applyMetadata(suite, metadata, title);
+            return suite;
+        });
+    }
+
+    /**
+     * Extract tests from a call expression: `test(title, [details,] body)`.
+     * Calls without a body, such as `test.skip(condition, reason)` inside a test, are not definitions.
+     * Parameterized tests yield one test per row of a static table, or a single test with the template title.
+     */
+    private async extractTests(
+        callExpr: CallExpression,
+        filePath: string,
+        parent: TestSuite,
+        bindings: Bindings,
+        evaluator: ConstantEvaluator,
+        table?: Node,
+        modifiers: TestModifier[] = []
+    ): Promise<TestInfo[]> {
+        const args = callExpr.getArguments();
+
+        if (args.length < 2 || !this.isFunction(args[args.length - 1])) {
+            return [];
         }
 
-        // Get the function body (second argument)
-        const functionArg = args[1];
+        const template = await evaluator.evaluateTitle(args[0], bindings);
+        const expanded = table ? await expandParameterizedTitles(template.text, table, evaluator, bindings) : null;
+        const titles = expanded ?? [template.text];
+        const dynamicTitle = parent.dynamicTitle || !template.exact || (table !== undefined && !expanded);
+        const metadata = await this.readMetadata(args, modifiers, parent, bindings, evaluator);
 
-        // Get line range for the entire test block
-        const startLine = callExpr.getStartLineNumber();
-        const endLine = callExpr.getEndLineNumber();
+        return titles.map(testName => {
+            const test: TestInfo = {
+                name: testName,
+                titlePath: [...parent.titlePath, testName],
+                filePath,
+                startLine: callExpr.getStartLineNumber(),
+                endLine: callExpr.getEndLineNumber(),
+            };
 
-        return {
-            name: testName,
-            filePath,
-            startLine,
-            endLine,
-        };
+            if (dynamicTitle) {
+                test.dynamicTitle = true;
+            }
+            this.applyMetadata(test, metadata, testName);
+            return test;
+        });
+    }
+
+    /**
+     * Tags, annotations and focus from a call's modifiers and `{ tag, annotation }` details
+     * (`test(title, details, body)`), added to those inherited from the enclosing describe block
+     */
+    private async readMetadata(
+        args: Node[],
+        modifiers: TestModifier[],
+        parent: TestSuite,
+        bindings: Bindings,
+        evaluator: ConstantEvaluator
+    ): Promise<Metadata> {
+        const tags = [...parent.tags ?? []];
+        const annotations = [...parent.annotations ?? []];
+        const details = args.length >= 3 && !this.isFunction(args[1]) ? await evaluator.evaluate(args[1], bindings) : null;
+
+        if (details && isRecord(details.value)) {
+            tags.push(...[details.value.tag].flat().filter((tag): tag is string => typeof tag === 'string'));
+
+            for (const annotation of [details.value.annotation].flat()) {
+                if (isRecord(annotation) && typeof annotation.type === 'string') {
+                    annotations.push(typeof annotation.description === 'string'
+                        ? { type: annotation.type, description: annotation.description }
+                        : { type: annotation.type });
+                }
+            }
+        }
+
+        annotations.push(...modifiers.filter(modifier => modifier !== 'only').map(type => ({ type })));
+
+        return { tags, annotations, only: parent.only === true || modifiers.includes('only') };
+    }
+
+    /**
+     * Set metadata on a test or describe block, adding the tags in its title; empty fields are left out
+     */
+    private applyMetadata(target: TestInfo | TestSuite, metadata: Metadata, title: string | null): void {
+        const tags = [...new Set([...metadata.tags, ...title?.match(TITLE_TAG) ?? []])];
+
+        if (tags.length > 0) {
+            target.tags = tags;
+        }
+        if (metadata.annotations.length > 0) {
+            target.annotations = metadata.annotations;
+        }
+        if (metadata.only) {
+            target.only = true;
+        }
+    }
+
+    private isFunction(node: Node): boolean {
+        return Node.isArrowFunction(node) || Node.isFunctionExpression(node);
     }
 
     /**
@@ -127,3 +554,15 @@ export class TestParser {
         return lines.some(line => this.isLineInRange(line, startLine, endLine));
     }
 }
+
+/**
+ * All tests of a suite and its nested suites, in source order
+ */
+export function flattenTests(suite: TestSuite): TestInfo[] {
+    const tests = [...suite.tests, ...suite.suites.flatMap(flattenTests)];
+    return tests.sort((a, b) => a.startLine - b.startLine);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
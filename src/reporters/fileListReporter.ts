@@ -0,0 +1,12 @@
+/**
+ * Newline-separated list of spec files containing impacted tests
+ */
+
+import { ImpactReport, Reporter } from '../types';
+import { selectedFiles, selectRunnableTests } from './selection';
+
+export class FileListReporter implements Reporter {
+    render(report: ImpactReport): string {
+        return selectedFiles(selectRunnableTests(report.impacts)).map(file => file + '\n').join('');
+    }
+}
@@ -0,0 +1,52 @@
+/**
+ * GitHub Actions workflow commands, shown as inline annotations on the pull request
+ */
+
+import { ImpactReport, ImpactResult, Reporter } from '../types';
+import { describePrevious, describeReason } from './summary';
+
+export class GithubAnnotationsReporter implements Reporter {
+    render(report: ImpactReport): string {
+        const warnings = (report.warnings ?? []).map(warning => `::warning title=Test impact analysis::${this.escapeData(warning)}\n`);
+        return warnings.join('') + report.impacts.map(impact => this.renderImpact(impact) + '\n').join('');
+    }
+
+    private renderImpact(impact: ImpactResult): string {
+        // Removed tests no longer exist in the new version, so they are annotated on the file only
+        const properties = [`file=${this.escapeProperty(impact.filePath)}`];
+        if (impact.impactType !== 'removed' && impact.startLine !== undefined) {
+            properties.push(`line=${impact.startLine}`);
+            if (impact.endLine !== undefined) {
+                properties.push(`endLine=${impact.endLine}`);
+            }
+        }
+        properties.push(`title=${this.escapeProperty(impact.introducesOnly ? 'test.only added' : `Test ${impact.impactType}`)}`);
+
+        const via = impact.importChain ? impact.importChain.slice(0, -1).join(' → ') : impact.helperFile;
+        const reason = impact.rule
+            ? ` (rule ${impact.rule} fired for ${impact.helperFile})`
+            : impact.fromCoverage ? ` (executed changed lines of ${impact.helperFile} in recorded coverage)`
+            : impact.isIndirect ? ` (indirect via ${via ?? 'a helper'})` : '';
+        const previous = describePrevious(impact);
+        const was = previous ? ` from "${previous}"` : '';
+        const dynamic = impact.dynamicTitle ? ' (title only known at runtime)' : '';
+        const focus = impact.introducesOnly ? '; .only makes CI skip every other test' : '';
+        const confidence = impact.confidence !== undefined ? ` [confidence ${impact.confidence.toFixed(2)}]` : '';
+        const reasons = impact.reasons && impact.reasons.length > 1
+            ? `\nReasons:\n${impact.reasons.map(r => `- ${describeReason(r)}`).join('\n')}`
+            : '';
+        const message = `"${impact.testName}"${dynamic} is ${impact.impactType}${was}${reason}${focus}${confidence}${reasons}`;
+
+        // A committed `.only` skips the rest of the suite in CI, so it is an error rather than a notice
+        const level = impact.introducesOnly ? 'error' : 'notice';
+        return `::${level} ${properties.join(',')}::${this.escapeData(message)}`;
+    }
+
+    private escapeData(text: string): string {
+        return text.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+    }
+
+    private escapeProperty(text: string): string {
+        return this.escapeData(text).replace(/:/g, '%3A').replace(/,/g, '%2C');
+    }
+}
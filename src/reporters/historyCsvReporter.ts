@@ -0,0 +1,64 @@
+/**
+ * CSV output of a history scan: the per-test timeline (one row per impact) or the helper churn ranking
+ */
+
+import { HistoryCommit, HistoryReport, HistoryReporter } from '../types';
+
+export type HistoryTable = 'timeline' | 'helpers';
+
+export class HistoryCsvReporter implements HistoryReporter {
+    private table: HistoryTable;
+
+    constructor(table: HistoryTable = 'timeline') {
+        this.table = table;
+    }
+
+    render(report: HistoryReport): string {
+        const rows = this.table === 'helpers' ? this.helperRows(report) : this.timelineRows(report);
+        return rows.map(row => row.map(value => this.escape(value)).join(',')).join('\n') + '\n';
+    }
+
+    /**
+     * Rows in commit order, so the table reads as a log
+     */
+    private timelineRows(report: HistoryReport): (string | number | boolean)[][] {
+        const commits = new Map<string, { commit: HistoryCommit; index: number }>(
+            report.commits.map((commit, index) => [commit.sha, { commit, index }])
+        );
+
+        const events = report.tests
+            .flatMap(test => test.events.map(event => ({ test, event, ...commits.get(event.commit)! })))
+            .sort((a, b) => a.index - b.index);
+
+        return [
+            ['commit', 'date', 'author', 'filePath', 'title', 'impactType', 'indirect', 'helperFile', 'rule', 'fromCoverage'],
+            ...events.map(({ test, event, commit }) => [
+                commit.sha,
+                commit.date,
+                commit.author,
+                test.filePath,
+                test.titlePath.join(' › '),
+                event.impactType,
+                event.isIndirect === true,
+                event.helperFile ?? '',
+                event.rule ?? '',
+                event.fromCoverage === true,
+            ]),
+        ];
+    }
+
+    private helperRows(report: HistoryReport): (string | number | boolean)[][] {
+        return [
+            ['helperFile', 'commits', 'impacts', 'tests'],
+            ...report.helpers.map(helper => [helper.helperFile, helper.commits, helper.impacts, helper.tests]),
+        ];
+    }
+
+    /**
+     * Quote fields containing separators, quotes or line breaks (RFC 4180)
+     */
+    private escape(value: string | number | boolean): string {
+        const text = String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    }
+}
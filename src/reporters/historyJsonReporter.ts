@@ -0,0 +1,36 @@
+/**
+ * Versioned JSON output of a history scan
+ */
+
+import { HistoryReport, HistoryReporter } from '../types';
+
+/**
+ * Bump when a field is renamed or removed; adding optional fields is not a breaking change
+ */
+export const HISTORY_SCHEMA_VERSION = 1;
+
+export class HistoryJsonReporter implements HistoryReporter {
+    render(report: HistoryReport): string {
+        const output = {
+            schemaVersion: HISTORY_SCHEMA_VERSION,
+            repository: report.repository,
+            commits: report.commits,
+            tests: report.tests.map(test => ({
+                filePath: test.filePath,
+                titlePath: test.titlePath,
+                impactCount: test.events.length,
+                timeline: test.events.map(event => ({
+                    commit: event.commit,
+                    impactType: event.impactType,
+                    indirect: event.isIndirect === true,
+                    helperFile: event.helperFile ?? null,
+                    rule: event.rule ?? null,
+                    fromCoverage: event.fromCoverage === true,
+                })),
+            })),
+            helpers: report.helpers,
+        };
+
+        return JSON.stringify(output, null, 2) + '\n';
+    }
+}
@@ -0,0 +1,74 @@
+/**
+ * Reporter registry
+ */
+
+import { HistoryFormat, HistoryReporter, OutputFormat, Reporter } from '../types';
+import { TextReporter } from './textReporter';
+import { JsonReporter } from './jsonReporter';
+import { MarkdownReporter } from './markdownReporter';
+import { JunitReporter } from './junitReporter';
+import { GithubAnnotationsReporter } from './githubAnnotationsReporter';
+import { PlaywrightCommandReporter } from './playwrightCommandReporter';
+import { FileListReporter } from './fileListReporter';
+import { PlaywrightManifestReporter } from './playwrightManifestReporter';
+import { HistoryJsonReporter } from './historyJsonReporter';
+import { HistoryCsvReporter, HistoryTable } from './historyCsvReporter';
+
+export const OUTPUT_FORMATS: OutputFormat[] = [
+    'text',
+    'json',
+    'markdown',
+    'junit',
+    'github-annotations',
+    'playwright-command',
+    'file-list',
+    'playwright-manifest',
+];
+
+export function isOutputFormat(value: string): value is OutputFormat {
+    return (OUTPUT_FORMATS as string[]).includes(value);
+}
+
+/**
+ * Create the reporter for a format. `colors` only applies to text output.
+ */
+export function createReporter(format: OutputFormat, colors: boolean = true): Reporter {
+    switch (format) {
+        case 'text':
+            return new TextReporter(colors);
+        case 'json':
+            return new JsonReporter();
+        case 'markdown':
+            return new MarkdownReporter();
+        case 'junit':
+            return new JunitReporter();
+        case 'github-annotations':
+            return new GithubAnnotationsReporter();
+        case 'playwright-command':
+            return new PlaywrightCommandReporter();
+        case 'file-list':
+            return new FileListReporter();
+        case 'playwright-manifest':
+            return new PlaywrightManifestReporter();
+    }
+}
+
+export const HISTORY_FORMATS: HistoryFormat[] = ['json', 'csv'];
+
+export function isHistoryFormat(value: string): value is HistoryFormat {
+    return (HISTORY_FORMATS as string[]).includes(value);
+}
+
+/**
+ * Create the reporter for a history scan. `table` picks the CSV table; JSON holds both.
+ */
+export function createHistoryReporter(format: HistoryFormat, table: HistoryTable = 'timeline'): HistoryReporter {
+    switch (format) {
+        case 'json':
+            return new HistoryJsonReporter();
+        case 'csv':
+            return new HistoryCsvReporter(table);
+    }
+}
+
+export { summarizeImpacts, describeTarget, describePrevious } from './summary';
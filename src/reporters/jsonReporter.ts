@@ -0,0 +1,76 @@
+/**
+ * Versioned JSON output for CI tooling
+ */
+
+import { ImpactReason, ImpactReport, ImpactResult, Reporter } from '../types';
+import { describeTarget, summarizeImpacts } from './summary';
+
+/**
+ * Bump when a field is renamed or removed; adding optional fields is not a breaking change
+ */
+export const JSON_SCHEMA_VERSION = 1;
+
+export class JsonReporter implements Reporter {
+    render(report: ImpactReport): string {
+        const output = {
+            schemaVersion: JSON_SCHEMA_VERSION,
+            repository: report.repository,
+            target: {
+                ...report.target,
+                description: describeTarget(report.target),
+            },
+            summary: summarizeImpacts(report.impacts),
+            impacts: report.impacts.map(impact => this.serializeImpact(impact)),
+            warnings: report.warnings ?? [],
+        };
+
+        return JSON.stringify(output, null, 2) + '\n';
+    }
+
+    /**
+     * Map an impact onto the published schema explicitly, so internal fields never leak into the output
+     */
+    private serializeImpact(impact: ImpactResult) {
+        return {
+            filePath: impact.filePath,
+            testName: impact.testName,
+            titlePath: impact.titlePath ?? [impact.testName],
+            dynamicTitle: impact.dynamicTitle === true,
+            tags: impact.tags ?? [],
+            annotations: impact.annotations ?? [],
+            only: impact.only === true,
+            introducesOnly: impact.introducesOnly === true,
+            impactType: impact.impactType,
+            previousTitlePath: impact.previousTitlePath ?? null,
+            previousFilePath: impact.previousFilePath ?? null,
+            indirect: impact.isIndirect === true,
+            helperFile: impact.helperFile ?? null,
+            importChain: impact.importChain ?? null,
+            rule: impact.rule ?? null,
+            fromCoverage: impact.fromCoverage === true,
+            fixture: impact.fixture ?? null,
+            changeKind: impact.changeKind ?? null,
+            changedLines: impact.changedLines ?? null,
+            cosmetic: impact.cosmetic === true,
+            confidence: impact.confidence ?? null,
+            reasons: (impact.reasons ?? []).map(reason => this.serializeReason(reason)),
+            lines: impact.startLine !== undefined && impact.endLine !== undefined
+                ? { start: impact.startLine, end: impact.endLine }
+                : null,
+        };
+    }
+
+    private serializeReason(reason: ImpactReason) {
+        return {
+            changeKind: reason.changeKind,
+            file: reason.file,
+            fixture: reason.fixture ?? null,
+            importChain: reason.importChain ?? null,
+            rule: reason.rule ?? null,
+            fromCoverage: reason.fromCoverage === true,
+            changedLines: reason.changedLines ?? null,
+            cosmetic: reason.cosmetic === true,
+            confidence: reason.confidence ?? null,
+        };
+    }
+}
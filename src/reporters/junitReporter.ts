@@ -0,0 +1,76 @@
+/**
+ * JUnit-style XML output; each impacted test becomes a test case grouped by spec file
+ */
+
+import { ImpactReport, ImpactResult, Reporter } from '../types';
+import { describeReason, describeTarget } from './summary';
+
+export class JunitReporter implements Reporter {
+    render(report: ImpactReport): string {
+        const byFile = new Map<string, ImpactResult[]>();
+        for (const impact of report.impacts) {
+            const group = byFile.get(impact.filePath) ?? [];
+            group.push(impact);
+            byFile.set(impact.filePath, group);
+        }
+
+        const lines = [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            `<testsuites name="${this.escape(`Test impact: ${describeTarget(report.target)}`)}" tests="${report.impacts.length}">`,
+        ];
+
+        for (const [filePath, impacts] of byFile) {
+            lines.push(`  <testsuite name="${this.escape(filePath)}" tests="${impacts.length}">`);
+
+            for (const impact of impacts) {
+                lines.push(`    <testcase classname="${this.escape(filePath)}" name="${this.escape(impact.testName)}">`);
+                lines.push('      <properties>');
+                lines.push(`        <property name="impactType" value="${impact.impactType}"/>`);
+                lines.push(`        <property name="indirect" value="${impact.isIndirect === true}"/>`);
+                if (impact.previousTitlePath) {
+                    lines.push(`        <property name="previousTitle" value="${this.escape(impact.previousTitlePath.join(' › '))}"/>`);
+                }
+                if (impact.previousFilePath) {
+                    lines.push(`        <property name="previousFilePath" value="${this.escape(impact.previousFilePath)}"/>`);
+                }
+                if (impact.helperFile) {
+                    lines.push(`        <property name="helperFile" value="${this.escape(impact.helperFile)}"/>`);
+                }
+                if (impact.rule) {
+                    lines.push(`        <property name="rule" value="${this.escape(impact.rule)}"/>`);
+                }
+                if (impact.fromCoverage) {
+                    lines.push('        <property name="fromCoverage" value="true"/>');
+                }
+                if (impact.confidence !== undefined) {
+                    lines.push(`        <property name="confidence" value="${impact.confidence}"/>`);
+                }
+                if (impact.reasons && impact.reasons.length > 1) {
+                    lines.push(`        <property name="reasons" value="${this.escape(impact.reasons.map(describeReason).join('; '))}"/>`);
+                }
+                if (impact.importChain) {
+                    lines.push(`        <property name="importChain" value="${this.escape(impact.importChain.join(' -> '))}"/>`);
+                }
+                if (impact.startLine !== undefined && impact.endLine !== undefined) {
+                    lines.push(`        <property name="lines" value="${impact.startLine}-${impact.endLine}"/>`);
+                }
+                lines.push('      </properties>');
+                lines.push('    </testcase>');
+            }
+
+            lines.push('  </testsuite>');
+        }
+
+        lines.push('</testsuites>');
+        return lines.join('\n') + '\n';
+    }
+
+    private escape(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&apos;');
+    }
+}
@@ -0,0 +1,93 @@
+/**
+ * Markdown output, suitable for pull request comments
+ */
+
+import { ImpactReport, ImpactResult, Reporter } from '../types';
+import { describePrevious, describeReason, describeTarget, summarizeImpacts } from './summary';
+
+export class MarkdownReporter implements Reporter {
+    render(report: ImpactReport): string {
+        const { impacts } = report;
+        const lines = [`## Test Impact Analysis`, '', `Analyzed ${this.escape(describeTarget(report.target))}.`, ''];
+
+        for (const warning of report.warnings ?? []) {
+            lines.push(`> **Warning:** ${this.escape(warning)}`, '');
+        }
+
+        if (impacts.length === 0) {
+            lines.push('No test impacts found.');
+            return lines.join('\n') + '\n';
+        }
+
+        const summary = summarizeImpacts(impacts);
+        if (summary.introducedOnly > 0) {
+            lines.push(`> **Warning:** \`.only\` was added to ${summary.introducedOnly} test(s); CI would run only the focused tests.`, '');
+        }
+
+        lines.push('| Total | Added | Removed | Modified | Renamed | Indirect |');
+        lines.push('| ---: | ---: | ---: | ---: | ---: | ---: |');
+        lines.push(
+            `| ${summary.total} | ${summary.added} | ${summary.removed} | ${summary.modified} | ${summary.renamed} | ${summary.indirect} |`
+        );
+
+        lines.push(...this.renderGroup('Added', impacts.filter(i => i.impactType === 'added')));
+        lines.push(...this.renderGroup('Removed', impacts.filter(i => i.impactType === 'removed')));
+        lines.push(...this.renderGroup('Modified', impacts.filter(i => i.impactType === 'modified')));
+        lines.push(...this.renderGroup('Renamed', impacts.filter(i => i.impactType === 'renamed')));
+
+        return lines.join('\n') + '\n';
+    }
+
+    private renderGroup(title: string, impacts: ImpactResult[]): string[] {
+        if (impacts.length === 0) return [];
+
+        const lines = ['', `### ${title} tests (${impacts.length})`, ''];
+        for (const impact of impacts) {
+            const location = impact.startLine !== undefined
+                ? `${impact.filePath}:${impact.startLine}`
+                : impact.filePath;
+            // The import chain ends with the spec file itself, which is already shown
+            const via = impact.importChain
+                ? impact.importChain.slice(0, -1)
+                : impact.helperFile ? [impact.helperFile] : [];
+            const indirect = impact.rule
+                ? ` _(rule \`${impact.rule}\` fired for \`${impact.helperFile}\`)_`
+                : impact.fromCoverage
+                ? ` _(executed changed lines of \`${impact.helperFile}\` in recorded coverage)_`
+                : impact.isIndirect && via.length > 0
+                ? ` _(indirect via ${via.map(file => `\`${file}\``).join(' → ')})_`
+                : impact.isIndirect ? ' _(indirect)_'
+                : impact.fixture ? ` _(fixture \`${impact.fixture}\`)_` : '';
+
+            const previous = describePrevious(impact);
+            const was = previous ? ` (was ${this.escape(previous)})` : '';
+
+            const dynamic = impact.dynamicTitle ? ' _(dynamic title)_' : '';
+            const tags = impact.tags ? ` ${impact.tags.map(tag => `\`${tag}\``).join(' ')}` : '';
+            const annotations = [...new Set(impact.annotations?.map(annotation => annotation.type))];
+            const marked = annotations.length > 0 ? ` _[${this.escape(annotations.join(', '))}]_` : '';
+            const focus = impact.introducesOnly ? ' **`.only` added**' : impact.only ? ' `.only`' : '';
+            const confidence = impact.confidence !== undefined
+                ? ` — confidence ${impact.confidence.toFixed(2)}${impact.cosmetic ? ' (cosmetic change)' : ''}`
+                : '';
+
+            lines.push(`- **${this.escape(impact.testName)}**${dynamic}${tags}${marked}${focus} in \`${location}\`${was}${indirect}${confidence}`);
+
+            if (impact.reasons && impact.reasons.length > 1) {
+                for (const reason of impact.reasons) {
+                    const score = reason.confidence !== undefined ? ` — ${reason.confidence.toFixed(2)}` : '';
+                    lines.push(`  - ${this.escape(describeReason(reason))}${score}`);
+                }
+            }
+        }
+
+        return lines;
+    }
+
+    /**
+     * Escape characters that would otherwise be interpreted as Markdown
+     */
+    private escape(text: string): string {
+        return text.replace(/([\\`*_{}\[\]<>|#])/g, '\\$1');
+    }
+}
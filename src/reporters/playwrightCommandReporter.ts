@@ -0,0 +1,24 @@
+/**
+ * A ready-to-run `npx playwright test` command for the impacted tests
+ */
+
+import { ImpactReport, Reporter } from '../types';
+import { buildGrep, escapeRegExp, selectedFiles, selectRunnableTests, shellQuote } from './selection';
+
+export class PlaywrightCommandReporter implements Reporter {
+    /**
+     * Renders nothing when no test needs to run, so CI can skip the test step on empty output
+     */
+    render(report: ImpactReport): string {
+        const tests = selectRunnableTests(report.impacts);
+        if (tests.length === 0) {
+            return '';
+        }
+
+        // File arguments are regular expressions in Playwright, so they are escaped as well
+        const files = selectedFiles(tests).map(file => shellQuote(escapeRegExp(file)));
+        const grep = shellQuote(buildGrep(tests));
+
+        return `npx playwright test ${files.join(' ')} --grep ${grep}\n`;
+    }
+}
@@ -0,0 +1,29 @@
+/**
+ * JSON manifest describing the test selection, for tooling that builds its own Playwright invocation
+ */
+
+import { ImpactReport, Reporter } from '../types';
+import { buildGrep, selectedFiles, selectRunnableTests, titleGrep } from './selection';
+
+export const MANIFEST_SCHEMA_VERSION = 1;
+
+export class PlaywrightManifestReporter implements Reporter {
+    render(report: ImpactReport): string {
+        const tests = selectRunnableTests(report.impacts);
+
+        const manifest = {
+            schemaVersion: MANIFEST_SCHEMA_VERSION,
+            files: selectedFiles(tests),
+            grep: tests.length > 0 ? buildGrep(tests) : null,
+            tests: tests.map(test => ({
+                filePath: test.filePath,
+                titlePath: test.titlePath,
+                grep: titleGrep(test.titlePath, test.dynamicTitle),
+                dynamicTitle: test.dynamicTitle === true,
+                confidence: test.confidence ?? null,
+            })),
+        };
+
+        return JSON.stringify(manifest, null, 2) + '\n';
+    }
+}
@@ -0,0 +1,88 @@
+/**
+ * Turn impacts into a runnable Playwright test selection
+ */
+
+import { ImpactResult } from '../types';
+
+export interface SelectedTest {
+    filePath: string;
+    titlePath: string[];
+    dynamicTitle?: boolean;
+    confidence?: number; // highest confidence among the test's impacts
+}
+
+/**
+ * Impacted tests that still exist and can be run (removed tests are dropped), one entry per test,
+ * in the order of the impacts (highest confidence first)
+ */
+export function selectRunnableTests(impacts: ImpactResult[]): SelectedTest[] {
+    const selected = new Map<string, SelectedTest>();
+
+    for (const impact of impacts) {
+        if (impact.impactType === 'removed') {
+            continue;
+        }
+
+        const titlePath = impact.titlePath ?? [impact.testName];
+        const key = `${impact.filePath}::${titlePath.join('\u0000')}`;
+        const existing = selected.get(key);
+        if (!existing) {
+            selected.set(key, {
+                filePath: impact.filePath,
+                titlePath,
+                ...(impact.dynamicTitle && { dynamicTitle: true }),
+                ...(impact.confidence !== undefined && { confidence: impact.confidence }),
+            });
+        } else if (impact.confidence !== undefined && impact.confidence > (existing.confidence ?? 0)) {
+            existing.confidence = impact.confidence;
+        }
+    }
+
+    return [...selected.values()];
+}
+
+/**
+ * Unique spec files of the selected tests, in first-seen order
+ */
+export function selectedFiles(tests: SelectedTest[]): string[] {
+    return [...new Set(tests.map(t => t.filePath))];
+}
+
+/**
+ * Escape a string for literal use inside a regular expression
+ */
+export function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Regex matching one test by its describe-qualified title.
+ * Playwright greps against the space-joined title path (project, file, describes, title, tags),
+ * so the title path is bounded by spaces rather than anchored to the whole string.
+ * In dynamic titles the parts only known at runtime (`${expression}`, `%s`, `$name`) match anything.
+ */
+export function titleGrep(titlePath: string[], dynamicTitle = false): string {
+    const pattern = escapeRegExp(titlePath.join(' '));
+    const title = dynamicTitle
+        ? pattern.replace(/\\\$\\\{.*?\\\}|%[sdifjoOp#$]|\\\$(?:#|[A-Za-z_]\w*(?:\\\.[A-Za-z_]\w*)*)/g, '.*')
+        : pattern;
+
+    return `(?:^| )${title}(?= |$)`;
+}
+
+/**
+ * Single `--grep` pattern matching every selected test
+ */
+export function buildGrep(tests: SelectedTest[]): string {
+    return [...new Set(tests.map(t => titleGrep(t.titlePath, t.dynamicTitle)))].join('|');
+}
+
+/**
+ * Quote an argument for POSIX shells
+ */
+export function shellQuote(arg: string): string {
+    if (/^[\w@%+=:,./-]+$/.test(arg)) {
+        return arg;
+    }
+    return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
@@ -0,0 +1,84 @@
+/**
+ * Shared helpers for reporters
+ */
+
+import { AnalysisTarget, ImpactReason, ImpactResult, ImpactType } from '../types';
+
+export interface ImpactSummary {
+    total: number;
+    added: number;
+    removed: number;
+    modified: number;
+    renamed: number;
+    indirect: number;
+    introducedOnly: number; // tests the change focused with `.only`
+}
+
+/**
+ * Count impacts per type
+ */
+export function summarizeImpacts(impacts: ImpactResult[]): ImpactSummary {
+    const count = (type: ImpactType) => impacts.filter(i => i.impactType === type).length;
+
+    return {
+        total: impacts.length,
+        added: count('added'),
+        removed: count('removed'),
+        modified: count('modified'),
+        renamed: count('renamed'),
+        indirect: impacts.filter(i => i.isIndirect).length,
+        introducedOnly: impacts.filter(i => i.introducesOnly).length,
+    };
+}
+
+/**
+ * Where a renamed test came from, e.g. `old title` or `old.spec.ts › old title`; null if it was not renamed
+ */
+export function describePrevious(impact: ImpactResult): string | null {
+    if (!impact.previousTitlePath && !impact.previousFilePath) {
+        return null;
+    }
+
+    const title = (impact.previousTitlePath ?? impact.titlePath ?? [impact.testName]).join(' › ');
+    return impact.previousFilePath ? `${impact.previousFilePath} › ${title}` : title;
+}
+
+/**
+ * One reason of an impact in words, e.g. `helper pages/login.ts → tests/auth.spec.ts` or `fixture page changed in tests/auth.spec.ts`
+ */
+export function describeReason(reason: ImpactReason): string {
+    const cosmetic = reason.cosmetic ? ' (cosmetic)' : '';
+
+    switch (reason.changeKind) {
+        case 'test':
+            return `test changed in ${reason.file}${cosmetic}`;
+        case 'scope':
+            return `hooks or describe-level code changed in ${reason.file}${cosmetic}`;
+        case 'fixture':
+            return `fixture ${reason.fixture} changed in ${reason.file}${cosmetic}`;
+        case 'helper':
+            return `helper ${(reason.importChain ?? [reason.file]).join(' → ')}${cosmetic}`;
+        case 'coverage':
+            return `executed changed lines of ${reason.file} in recorded coverage${cosmetic}`;
+        case 'rule':
+            return `rule ${reason.rule} fired for ${reason.file}`;
+    }
+}
+
+/**
+ * Human-readable label for an analysis target, e.g. "commit abc123" or "range main...feature"
+ */
+export function describeTarget(target: AnalysisTarget): string {
+    switch (target.kind) {
+        case 'commit':
+            return `commit ${target.commit}`;
+        case 'range': {
+            const separator = target.range.useMergeBase ? '...' : '..';
+            return `range ${target.range.base}${separator}${target.range.head}`;
+        }
+        case 'staged':
+            return 'staged changes';
+        case 'working-tree':
+            return 'working tree changes';
+    }
+}
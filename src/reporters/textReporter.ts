@@ -0,0 +1,97 @@
+/**
+ * Human-readable, color-coded terminal output
+ */
+
+import chalk from 'chalk';
+import { ImpactReport, ImpactResult, Reporter } from '../types';
+import { describePrevious, describeReason, describeTarget, summarizeImpacts } from './summary';
+
+type Color = 'green' | 'red' | 'yellow' | 'blue';
+
+export class TextReporter implements Reporter {
+    private chalk: chalk.Chalk;
+
+    constructor(colors: boolean = true) {
+        this.chalk = colors ? chalk : new chalk.Instance({ level: 0 });
+    }
+
+    render(report: ImpactReport): string {
+        const c = this.chalk;
+        const { impacts } = report;
+
+        const warnings = (report.warnings ?? []).map(warning => c.yellow(`⚠️  ${warning}`));
+
+        if (impacts.length === 0) {
+            return [...warnings, c.yellow(`No test impacts found in ${describeTarget(report.target)}.`)].join('\n') + '\n';
+        }
+
+        const lines: string[] = [...warnings];
+
+        // Group impacts by type
+        lines.push(...this.renderGroup('Added', impacts.filter(i => i.impactType === 'added'), 'green', '✅'));
+        lines.push(...this.renderGroup('Removed', impacts.filter(i => i.impactType === 'removed'), 'red', '❌'));
+        lines.push(...this.renderGroup('Modified', impacts.filter(i => i.impactType === 'modified'), 'yellow', '⚠️'));
+        lines.push(...this.renderGroup('Renamed', impacts.filter(i => i.impactType === 'renamed'), 'blue', '🔀'));
+
+        // Summary
+        const summary = summarizeImpacts(impacts);
+        lines.push(c.bold(`\n Summary:`));
+        lines.push(`   Total impacts: ${c.bold(summary.total)}`);
+        lines.push(`   Added: ${c.green(summary.added)}`);
+        lines.push(`   Removed: ${c.red(summary.removed)}`);
+        lines.push(`   Modified: ${c.yellow(summary.modified)}`);
+
+        if (summary.renamed > 0) {
+            lines.push(`   Renamed: ${c.blue(summary.renamed)}`);
+        }
+
+        if (summary.indirect > 0) {
+            lines.push(`   Indirect (via helpers): ${c.cyan(summary.indirect)}`);
+        }
+
+        if (summary.introducedOnly > 0) {
+            lines.push(c.red.bold(`\n ⚠️  .only added to ${summary.introducedOnly} test(s); CI would run only the focused tests`));
+        }
+
+        return lines.join('\n') + '\n\n';
+    }
+
+    private renderGroup(title: string, impacts: ImpactResult[], color: Color, icon: string): string[] {
+        if (impacts.length === 0) return [];
+
+        const c = this.chalk;
+        const lines = [c.bold(`\n${icon} ${title} Tests (${impacts.length}):`)];
+
+        for (const impact of impacts) {
+            const indirect = impact.rule
+                ? c.cyan(` (rule: ${impact.rule}, ${impact.helperFile})`)
+                : impact.fromCoverage ? c.cyan(` (coverage: ${impact.helperFile})`)
+                : impact.isIndirect ? c.cyan(' (indirect)')
+                : impact.fixture ? c.cyan(` (fixture: ${impact.fixture})`) : '';
+            const previous = describePrevious(impact);
+            const annotations = [...new Set(impact.annotations?.map(annotation => annotation.type))];
+            const focus = impact.introducesOnly ? c.red.bold(' [.only added]') : impact.only ? c.red(' [only]') : '';
+            lines.push(
+                c[color](`   • "${impact.testName}"`) +
+                (impact.dynamicTitle ? c.magenta(' (dynamic title)') : '') +
+                (impact.tags ? c.gray(` ${impact.tags.join(' ')}`) : '') +
+                (annotations.length > 0 ? c.gray(` [${annotations.join(', ')}]`) : '') +
+                focus +
+                c.gray(` in ${impact.filePath}`) +
+                (previous ? c.gray(` (was ${previous})`) : '') +
+                indirect +
+                (impact.confidence !== undefined ? c.gray(` [confidence ${impact.confidence.toFixed(2)}${impact.cosmetic ? ', cosmetic' : ''}]`) : '')
+            );
+
+            // A test impacted in several ways lists every reason under it
+            if (impact.reasons && impact.reasons.length > 1) {
+                for (const reason of impact.reasons) {
+                    const confidence = reason.confidence !== undefined ? ` [${reason.confidence.toFixed(2)}]` : '';
+                    lines.push(c.gray(`       ↳ ${describeReason(reason)}${confidence}`));
+                }
+            }
+        }
+
+        return lines;
+    }
+}
@@ -4,25 +4,132 @@
 
 export interface TestInfo {
     name: string;
+    titlePath: string[]; // enclosing describe titles followed by the test name
     filePath: string;
     startLine: number;
     endLine: number;
+    dynamicTitle?: boolean; // title (or an enclosing describe title) is only partly known statically; unknown parts read `${expression}`
+    tags?: string[]; // '@smoke', from `{ tag }` details and the title, including those of enclosing describes
+    annotations?: TestAnnotation[]; // modifiers (`test.skip`, `describe.fixme`, ...) and `{ annotation }` details
+    only?: boolean; // focused with `.only` (or `fit`), directly or through an enclosing describe
 }
 
-export type ImpactType = 'added' | 'removed' | 'modified';
+/**
+ * Modifiers that change whether or how a test runs, by the names Playwright uses
+ */
+export type TestModifier = 'only' | 'skip' | 'fixme' | 'fail' | 'slow';
+
+export interface TestAnnotation {
+    type: string; // 'skip', 'fixme', 'fail' or 'slow' for modifiers, anything for `{ annotation }` details
+    description?: string;
+}
+
+export type HookKind =
+    | 'beforeEach'
+    | 'afterEach'
+    | 'beforeAll'
+    | 'afterAll'
+    | 'configure' // test.describe.configure(...)
+    | 'use'; // test.use(...)
+
+/**
+ * Hook or scope option; applies to every test in the enclosing describe block (or file)
+ */
+export interface TestHook {
+    kind: HookKind;
+    startLine: number;
+    endLine: number;
+}
+
+/**
+ * A loop defining tests or describe blocks (`for...of`, `for...in`, `xs.forEach(...)`, `xs.map(...)`);
+ * code in it outside the tests, like its header, only concerns the tests defined inside
+ */
+export interface TestLoop {
+    startLine: number;
+    endLine: number;
+}
+
+/**
+ * A describe block, or the file itself at the root of the tree
+ */
+export interface TestSuite {
+    title: string | null; // null for the file and for anonymous describes
+    titlePath: string[];
+    startLine: number;
+    endLine: number;
+    suites: TestSuite[];
+    tests: TestInfo[];
+    hooks: TestHook[];
+    loops: TestLoop[]; // loops directly in this block (not in nested describes) that define tests or describe blocks
+    dynamicTitle?: boolean; // set when this or an enclosing describe title is not fully known statically
+    tags?: string[]; // own and inherited, as for tests
+    annotations?: TestAnnotation[];
+    only?: boolean;
+}
+
+export type ImpactType = 'added' | 'removed' | 'modified' | 'renamed';
+
+/**
+ * Where the change behind an impact is, from most to least likely to change the test's behavior
+ */
+export type ChangeKind =
+    | 'test' // the test itself (body, title, or the test was added, removed or renamed)
+    | 'scope' // hooks, configure/use calls or describe-level code around it
+    | 'fixture' // a fixture defined in the spec that the test requests
+    | 'helper' // a helper symbol the test references, possibly through other modules
+    | 'coverage' // application code the test executed in recorded coverage
+    | 'rule'; // a non-code file matched by an impact rule
+
+/**
+ * One cause of an impact. A test impacted in several ways (its own lines, a helper, a fixture,
+ * a rule) is reported once, with every cause listed.
+ */
+export interface ImpactReason {
+    changeKind: ChangeKind;
+    file: string; // changed file: the spec itself, or the helper, application or rule-matched file
+    fixture?: string; // fixture defined in the spec whose change reaches the test
+    importChain?: string[]; // helper → ... → spec file
+    rule?: string; // impact rule that fired for `file`
+    fromCoverage?: boolean; // the test executed changed lines of `file` in recorded coverage
+    changedLines?: number;
+    cosmetic?: boolean;
+    confidence?: number;
+}
 
 export interface ImpactResult {
     testName: string;
+    titlePath?: string[]; // describe-qualified title, e.g. ['auth', 'can log in']
     filePath: string;
+    ordinal?: number; // among the file's tests with the same title path, 0-based, in the version the impact refers to; unset for the first
     impactType: ImpactType;
-    isIndirect?: boolean; // true if impact is from helper method changes
+    previousTitlePath?: string[]; // title before a rename, when it changed
+    previousFilePath?: string; // spec file before a move, when it changed
+    isIndirect?: boolean; // true if impact is from helper method changes only (no reason lies in the spec itself)
+    helperFile?: string; // changed helper that caused an indirect impact
+    importChain?: string[]; // helper → ... → spec file, explaining an indirect impact
+    rule?: string; // name of the impact rule that fired for a non-code change
+    fixture?: string; // fixture defined in the spec whose change impacts the test
+    startLine?: number; // test range in the version the impact refers to (base for removed tests)
+    endLine?: number;
+    dynamicTitle?: boolean; // title is only partly known statically; unknown parts read `${expression}`
+    tags?: string[];
+    annotations?: TestAnnotation[];
+    only?: boolean; // the test is focused with `.only` in the version the impact refers to
+    introducesOnly?: boolean; // the change focused the test (`.only` added to it or an enclosing describe)
+    fromCoverage?: boolean; // indirect impact found in recorded coverage: the test executed changed lines of `helperFile`
+    changeKind?: ChangeKind;
+    changedLines?: number; // added and deleted lines behind the impact (in the test, or in the changed file)
+    cosmetic?: boolean; // the code is the same apart from formatting and comments (syntax trees compared)
+    confidence?: number; // 0-1, how likely the change affects the test's outcome; results are sorted by it
+    reasons?: ImpactReason[]; // every cause found for the test, strongest first; changeKind, changedLines, cosmetic and confidence are the strongest one's
 }
 
-export interface ChangedFile {
-    path: string;
-    changeType: 'added' | 'modified' | 'deleted';
-    addedLines: number[];
-    deletedLines: number[];
+export interface ChangedFile extends FileChange {
+    changeType: 'added' | 'modified' | 'deleted' | 'renamed';
+    oldPath?: string; // path before a rename or move
+    addedLines: number[]; // new-side line numbers, from the hunks
+    deletedLines: number[]; // old-side line numbers, from the hunks
 }
 
 export interface DiffInfo {
@@ -30,15 +137,199 @@ export interface DiffInfo {
     commit: string;
 }
 
+export interface RevisionRange {
+    base: string;
+    head: string;
+    useMergeBase: boolean; // compare against merge-base(base, head) instead of base itself
+}
+
+export type TestPattern = string | RegExp;
+
+export type TestFramework = 'playwright' | 'jest' | 'vitest' | 'mocha' | 'cypress';
+
+/**
+ * What a call defines. Parameterized calls (`test.each(table)(title, fn)`) run once per table row.
+ */
+export type TestCallKind =
+    | { kind: 'test'; parameterized?: boolean; modifiers?: TestModifier[] }
+    | { kind: 'suite'; parameterized?: boolean; modifiers?: TestModifier[] }
+    | { kind: 'hook'; hook: HookKind };
+
+/**
+ * Syntax of one test framework. Calls are classified by their callee path: `test.describe.serial(...)`
+ * is ['test', 'describe', 'serial'], and curried calls like `test.each(table)(...)` or
+ * `test.skipIf(condition)(...)` use the path of the function returning the callee (['test', 'each']).
+ */
+export interface FrameworkAdapter {
+    name: TestFramework;
+    globals: string[]; // identifiers calls start with; import aliases and `.extend()` results map back to them
+    testMatch: string[]; // default globs for test files
+    classify(path: string[]): TestCallKind | null;
+}
+
+export interface TestFileOptions {
+    testDir?: string; // relative to the repository
+    testMatch?: TestPattern[];
+    testIgnore?: TestPattern[];
+    ignore?: string[]; // globs of files excluded from analysis entirely
+}
+
+export type RuleImpact =
+    | 'all' // every test in the repository
+    | 'directory' // tests in spec files under the changed file's directory
+    | 'references'; // tests that mention the changed file in a string literal
+
+export interface ImpactRule {
+    name?: string;
+    files: string[]; // globs relative to the repository; globs without a slash match at any depth
+    impact: RuleImpact;
+}
+
+export interface AnalyzerOptions extends TestFileOptions {
+    sourceRoots?: string[]; // directories scanned for sources, relative to the repository
+    paths?: Record<string, string[]>; // import aliases, applied before tsconfig paths
+    frameworks?: TestFramework[]; // test syntaxes to recognize (default: detected from package.json)
+    testFunctions?: string[]; // Playwright test objects, e.g. ['test', 'myTest'] (default: ['test'])
+    runAllOn?: string[]; // globs of files whose change impacts every test (shorthand for an 'all' rule)
+    rules?: ImpactRule[]; // checked before the built-in rules
+    cache?: boolean; // reuse parse results across runs (default: true)
+    includeTags?: string[]; // only report tests with at least one of these tags ('@smoke' or 'smoke')
+    excludeTags?: string[]; // drop tests with any of these tags
+    coverage?: CoverageOptions;
+    minConfidence?: number; // drop impacts scored below this (0-1)
+    top?: number; // keep only the highest-scored impacts
+    ignoreCosmetic?: boolean; // drop impacts whose change is cosmetic only
+}
+
+/**
+ * Mapping of application code onto tests through coverage recorded in a previous run
+ */
+export interface CoverageOptions {
+    map?: string; // stored coverage map (default: inside the git directory, next to the cache)
+    include?: string[]; // globs of files whose changes are looked up in the map (default: ['src/**'])
+    maxAge?: number; // warn when the map was recorded more than this many commits before the analyzed revision (default: 50)
+}
+
+/**
+ * Executed lines as inclusive [start, end] ranges, 1-based
+ */
+export type LineRanges = [number, number][];
+
+export interface TestCoverage {
+    filePath: string; // spec file, relative to the repository
+    titlePath: string[];
+    files: Record<string, LineRanges>; // executed source files, relative to the repository
+}
+
+/**
+ * Per-test coverage imported from a previous run; line numbers refer to the files at `commit`
+ */
+export interface CoverageMap {
+    version: number;
+    commit: string;
+    createdAt: string; // ISO 8601
+    tests: TestCoverage[];
+}
+
+/**
+ * Contents of .impactrc / impact.config.*; CLI flags take precedence
+ */
+export interface ImpactConfig extends AnalyzerOptions {
+    testMatch?: string[];
+    testIgnore?: string[];
+    format?: OutputFormat;
+    output?: string;
+}
+
+export type AnalysisTarget =
+    | { kind: 'commit'; commit: string; mainline: number }
+    | { kind: 'range'; range: RevisionRange }
+    | { kind: 'staged' }
+    | { kind: 'working-tree' };
+
+export interface ImpactReport {
+    repository: string;
+    target: AnalysisTarget;
+    impacts: ImpactResult[];
+    introducedOnly?: ImpactResult[]; // every test the change focuses with `.only`, also those the tag, confidence and top filters left out
+    warnings?: string[]; // conditions that may make the impacts incomplete, e.g. an outdated coverage map
+}
+
+export interface HistoryCommit {
+    sha: string;
+    date: string; // committer date, ISO 8601
+    author: string;
+    subject: string;
+}
+
+/**
+ * How one commit impacted a test
+ */
+export interface TestHistoryEvent {
+    commit: string;
+    impactType: ImpactType;
+    isIndirect?: boolean;
+    helperFile?: string;
+    rule?: string;
+    fromCoverage?: boolean;
+}
+
+export interface TestHistory {
+    filePath: string; // latest path and title; renames continue the same history
+    titlePath: string[];
+    events: TestHistoryEvent[]; // oldest first
+}
+
+/**
+ * Indirect impacts caused by changes to one helper file
+ */
+export interface HelperChurn {
+    helperFile: string;
+    commits: number; // commits in which a change to the helper impacted tests
+    impacts: number; // test impacts over those commits
+    tests: number; // distinct tests impacted
+}
+
+export interface HistoryReport {
+    repository: string;
+    commits: HistoryCommit[]; // oldest first
+    tests: TestHistory[]; // most often impacted first
+    helpers: HelperChurn[]; // most impacts first
+}
+
+export type HistoryFormat = 'json' | 'csv';
+
+export interface HistoryReporter {
+    render(report: HistoryReport): string;
+}
+
+export type OutputFormat =
+    | 'text'
+    | 'json'
+    | 'markdown'
+    | 'junit'
+    | 'github-annotations'
+    | 'playwright-command'
+    | 'file-list'
+    | 'playwright-manifest';
+
+export interface Reporter {
+    render(report: ImpactReport): string;
+}
+
 export interface FileChange {
-    file: string;
+    path: string;
     hunks: Hunk[];
 }
 
+/**
+ * One `@@` block of a zero-context diff. For pure deletions `newLines` is 0 and `newStart`
+ * is the line after which the deleted lines used to be; likewise `oldStart` for pure additions.
+ */
 export interface Hunk {
     oldStart: number;
     oldLines: number;
     newStart: number;
     newLines: number;
-    lines: string[];
+    lines: string[]; // diff lines, prefixed with '-' (old side) or '+' (new side)
 }
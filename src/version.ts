@@ -0,0 +1,17 @@
+/**
+ * Version of the analyzer, read from package.json (one level above both src/ and dist/)
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+
+function readVersion(): string {
+    try {
+        const manifest = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf-8'));
+        return typeof manifest.version === 'string' ? manifest.version : '0.0.0';
+    } catch {
+        return '0.0.0';
+    }
+}
+
+export const VERSION = readVersion();